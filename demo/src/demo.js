@@ -60,11 +60,31 @@ document.addEventListener('DOMContentLoaded', () => {
       parentAttr: 'data-focus-parent',
       childAttr: 'data-focus-child-of',
       parentPosition: currentParentPosition, // Use current parent position
+      keyboard: true, // Let the engine handle arrow, Enter and Back keys
       onSelect: (element) => {
         logEvent(`Element selected: ${element.textContent}`);
       },
     });
 
+    // Log focus changes and parent-child transitions through engine events
+    engine.on('focus', ({ element }) => {
+      logEvent(`Focus moved to: ${element.textContent.trim()}`);
+
+      const isParent = element.getAttribute('data-focus-parent');
+      if (isParent) {
+        logEvent(`This is a parent element with ID: ${isParent}`);
+      }
+    });
+    engine.on('enterGroup', ({ parentId }) => {
+      logEvent(`Entered children of: ${parentId}`);
+    });
+    engine.on('leaveGroup', ({ parentId }) => {
+      logEvent(`Left children of: ${parentId}`);
+    });
+    engine.on('edgeReached', ({ direction }) => {
+      logEvent(`No element in direction: ${direction}`);
+    });
+
     logEvent(`FocusEngine initialized with parent position: ${currentParentPosition}`);
 
     // Default to showing all categories
@@ -297,45 +317,12 @@ document.addEventListener('DOMContentLoaded', () => {
   // Initialize the remote control
   initializeRemoteControl();
 
-  // Detect and log all focus changes for demo purposes
-  document.addEventListener('focusin', (event) => {
-    if (event.target.classList.contains('focusable')) {
-      logEvent(`Focus moved to: ${event.target.textContent.trim()}`);
-
-      // Log parent-child relationship info when focus changes
-      const childOf = event.target.getAttribute('data-focus-child-of');
-      const isParent = event.target.getAttribute('data-focus-parent');
-
-      if (childOf) {
-        logEvent(`This is a child element of: ${childOf}`);
-      }
-
-      if (isParent) {
-        logEvent(`This is a parent element with ID: ${isParent}`);
-      }
-    }
-  });
-
   // Keyboard event logging for debugging
   document.addEventListener('keydown', (event) => {
     if (
       ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight', 'Enter', 'Escape'].includes(event.key)
     ) {
       logEvent(`Key pressed: ${event.key}`);
-
-      if (event.key === 'Enter') {
-        engine.triggerEnter();
-      } else if (event.key === 'ArrowUp') {
-        engine.triggerArrowUp();
-      } else if (event.key === 'ArrowDown') {
-        engine.triggerArrowDown();
-      } else if (event.key === 'ArrowLeft') {
-        engine.triggerArrowLeft();
-      } else if (event.key === 'ArrowRight') {
-        engine.triggerArrowRight();
-      } else if (event.key === 'Escape') {
-        engine.triggerBack();
-      }
     }
   });
 });
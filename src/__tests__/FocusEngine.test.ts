@@ -1,4 +1,11 @@
-import { FocusEngine } from '../index';
+import {
+  FocusCoordinator,
+  FocusEngine,
+  FocusEngineOptions,
+  FocusSection,
+  WritingFlow,
+} from '../index';
+import { ScrollManager } from '../scroll';
 
 // Mock for getBoundingClientRect
 const mockElementRects = {
@@ -7,6 +14,61 @@ const mockElementRects = {
   item3: { top: 120, left: 0, right: 100, bottom: 220, width: 100, height: 100 },
   item4: { top: 120, left: 120, right: 220, bottom: 220, width: 100, height: 100 },
   item5: { top: 120, left: 240, right: 340, bottom: 220, width: 100, height: 100 },
+  menu: { top: 300, left: 0, right: 100, bottom: 400, width: 100, height: 100 },
+  childA: { top: 300, left: 200, right: 300, bottom: 400, width: 100, height: 100 },
+  childB: { top: 300, left: 320, right: 420, bottom: 400, width: 100, height: 100 },
+  // Section layout: a menu column and a content area
+  m1: { top: 0, left: 0, right: 100, bottom: 100, width: 100, height: 100 },
+  m2: { top: 300, left: 0, right: 100, bottom: 400, width: 100, height: 100 },
+  c1: { top: 0, left: 120, right: 220, bottom: 100, width: 100, height: 100 },
+  c2: { top: 0, left: 240, right: 340, bottom: 100, width: 100, height: 100 },
+  c3: { top: 120, left: 0, right: 100, bottom: 220, width: 100, height: 100 },
+  // Layers: a drawer and a dialog below the grid
+  drawerItem: { top: 500, left: 0, right: 100, bottom: 600, width: 100, height: 100 },
+  dialogOk: { top: 700, left: 0, right: 100, bottom: 800, width: 100, height: 100 },
+  dialogCancel: { top: 700, left: 120, right: 220, bottom: 800, width: 100, height: 100 },
+  // Virtual rail: items are 100px wide with a 20px gap
+  v0: { top: 0, left: 0, right: 100, bottom: 100, width: 100, height: 100 },
+  v1: { top: 0, left: 120, right: 220, bottom: 100, width: 100, height: 100 },
+  v2: { top: 0, left: 240, right: 340, bottom: 100, width: 100, height: 100 },
+  rail: { top: 0, left: 0, right: 340, bottom: 100, width: 340, height: 100 },
+  railEntry: { top: 120, left: 0, right: 100, bottom: 220, width: 100, height: 100 },
+  // Picture-in-picture panel right of the grid, and a shadow DOM row
+  pipA: { top: 0, left: 240, right: 340, bottom: 100, width: 100, height: 100 },
+  pipB: { top: 0, left: 360, right: 460, bottom: 100, width: 100, height: 100 },
+  shadowA: { top: 0, left: 0, right: 100, bottom: 100, width: 100, height: 100 },
+  shadowB: { top: 0, left: 120, right: 220, bottom: 100, width: 100, height: 100 },
+  // An embedded iframe right of the grid
+  frame: { top: 0, left: 240, right: 540, bottom: 300, width: 300, height: 300 },
+  // A ragged grid below everything else: three items, then two centered under them
+  g0: { top: 900, left: 0, right: 100, bottom: 1000, width: 100, height: 100 },
+  g1: { top: 900, left: 120, right: 220, bottom: 1000, width: 100, height: 100 },
+  g2: { top: 900, left: 240, right: 340, bottom: 1000, width: 100, height: 100 },
+  g3: { top: 1020, left: 60, right: 160, bottom: 1120, width: 100, height: 100 },
+  g4: { top: 1020, left: 180, right: 280, bottom: 1120, width: 100, height: 100 },
+  // A right-to-left group below the grid: the menu on the right, its children to the left
+  rtlMenu: { top: 1200, left: 240, right: 340, bottom: 1300, width: 100, height: 100 },
+  rtlA: { top: 1200, left: 120, right: 220, bottom: 1300, width: 100, height: 100 },
+  rtlB: { top: 1200, left: 0, right: 100, bottom: 1300, width: 100, height: 100 },
+  // A vertical group right of it: the menu on top, its children below
+  vMenu: { top: 1200, left: 600, right: 700, bottom: 1300, width: 100, height: 100 },
+  vA: { top: 1320, left: 600, right: 700, bottom: 1420, width: 100, height: 100 },
+  vB: { top: 1440, left: 600, right: 700, bottom: 1540, width: 100, height: 100 },
+  // A tab above its panel, and a bottom bar item below its content
+  tab: { top: 1600, left: 0, right: 100, bottom: 1700, width: 100, height: 100 },
+  panelA: { top: 1720, left: 0, right: 100, bottom: 1820, width: 100, height: 100 },
+  panelB: { top: 1720, left: 120, right: 220, bottom: 1820, width: 100, height: 100 },
+  homeA: { top: 1880, left: 0, right: 100, bottom: 1980, width: 100, height: 100 },
+  homeB: { top: 1880, left: 120, right: 220, bottom: 1980, width: 100, height: 100 },
+  homeTab: { top: 2000, left: 0, right: 100, bottom: 2100, width: 100, height: 100 },
+  // Nested levels: sidebar, category, two sub-categories and their items
+  navSide: { top: 2200, left: 0, right: 100, bottom: 2300, width: 100, height: 100 },
+  navCat: { top: 2200, left: 120, right: 220, bottom: 2300, width: 100, height: 100 },
+  navSub: { top: 2200, left: 240, right: 340, bottom: 2300, width: 100, height: 100 },
+  navSub2: { top: 2320, left: 240, right: 340, bottom: 2420, width: 100, height: 100 },
+  navItemA: { top: 2200, left: 360, right: 460, bottom: 2300, width: 100, height: 100 },
+  navItemB: { top: 2200, left: 480, right: 580, bottom: 2300, width: 100, height: 100 },
+  navItemC: { top: 2320, left: 360, right: 460, bottom: 2420, width: 100, height: 100 },
 };
 
 // Mock DOM elements for testing
@@ -44,6 +106,18 @@ function setupDOM() {
   });
 }
 
+// Adds a parent menu item with two children to its right
+function addParentChildGroup() {
+  document.querySelector('.grid-container')?.insertAdjacentHTML(
+    'beforeend',
+    `
+    <div id="menu" class="focusable" tabindex="0" data-focus-parent="movies">Movies</div>
+    <div id="childA" class="focusable" tabindex="0" data-focus-child-of="movies">Movie A</div>
+    <div id="childB" class="focusable" tabindex="0" data-focus-child-of="movies">Movie B</div>
+  `
+  );
+}
+
 /**
  * Mocked class for testing, allows to work around document.activeElement limitations
  */
@@ -217,6 +291,2172 @@ describe('FocusEngine', () => {
     });
   });
 
+  describe('Keyboard input', () => {
+    let keyboardEngine: FocusEngine;
+
+    beforeEach(() => {
+      keyboardEngine = new FocusEngine({ autoInit: false, keyboard: true });
+      keyboardEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      keyboardEngine.destroy();
+    });
+
+    it('should navigate when a mapped arrow key is pressed', () => {
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(document.activeElement).toBe(document.getElementById('item2'));
+    });
+
+    it('should trigger back for TV remote key codes', () => {
+      const triggerBackSpy = jest.spyOn(keyboardEngine, 'triggerBack');
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { keyCode: 10009 }));
+      document.dispatchEvent(new KeyboardEvent('keydown', { keyCode: 461 }));
+
+      expect(triggerBackSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('should prevent default for handled keys only', () => {
+      const arrowEvent = new KeyboardEvent('keydown', { key: 'ArrowDown', cancelable: true });
+      const letterEvent = new KeyboardEvent('keydown', { key: 'a', cancelable: true });
+
+      document.dispatchEvent(arrowEvent);
+      document.dispatchEvent(letterEvent);
+
+      expect(arrowEvent.defaultPrevented).toBe(true);
+      expect(letterEvent.defaultPrevented).toBe(false);
+    });
+
+    it('should use a custom key map', () => {
+      keyboardEngine.destroy();
+      keyboardEngine = new FocusEngine({
+        autoInit: false,
+        keyboard: true,
+        keyMap: { ArrowRight: ['d'] },
+      });
+      keyboardEngine.init();
+      jest.advanceTimersByTime(300);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('item1'));
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'd' }));
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('item2'));
+    });
+
+    it('should leave caret keys and Enter to text fields', () => {
+      document
+        .querySelector('.grid-container')
+        ?.insertAdjacentHTML('beforeend', '<input id="search" type="text" />');
+      const search = document.getElementById('search') as HTMLInputElement;
+      search.focus();
+
+      const arrowEvent = new KeyboardEvent('keydown', {
+        key: 'ArrowRight',
+        bubbles: true,
+        cancelable: true,
+      });
+      search.dispatchEvent(arrowEvent);
+      search.dispatchEvent(new KeyboardEvent('keydown', { key: 'Enter', bubbles: true }));
+
+      expect(arrowEvent.defaultPrevented).toBe(false);
+      expect(document.activeElement).toBe(search);
+
+      const goBackSpy = jest.spyOn(keyboardEngine, 'goBack');
+      search.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape', bubbles: true }));
+      expect(goBackSpy).toHaveBeenCalled();
+    });
+
+    it('should stop listening when destroyed', () => {
+      keyboardEngine.destroy();
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+
+      expect(document.activeElement).toBe(document.getElementById('item1'));
+    });
+  });
+
+  describe('Key repeat and long press', () => {
+    const keyDown = (key: string, repeat = false) =>
+      document.dispatchEvent(new KeyboardEvent('keydown', { key, repeat }));
+    const keyUp = (key: string) => document.dispatchEvent(new KeyboardEvent('keyup', { key }));
+
+    it('should throttle hardware repeats of held keys', () => {
+      document
+        .querySelector('.grid-container')
+        ?.insertAdjacentHTML('beforeend', '<div id="item5" class="focusable" tabindex="0"></div>');
+      const repeatEngine = new FocusEngine({
+        autoInit: false,
+        keyboard: true,
+        keyRepeat: { delay: 300, interval: 100 },
+      });
+      repeatEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+      keyDown('ArrowDown');
+      keyUp('ArrowDown');
+      jest.advanceTimersByTime(16); // Render the move
+
+      keyDown('ArrowRight');
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item4'));
+
+      // Repeats arriving before the initial delay are dropped
+      keyDown('ArrowRight', true);
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item4'));
+
+      jest.advanceTimersByTime(300);
+      keyDown('ArrowRight', true);
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item5'));
+
+      repeatEngine.destroy();
+    });
+
+    it('should drop repeats while a scroll transition is running', () => {
+      const repeatEngine = new FocusEngine({
+        autoInit: false,
+        keyboard: true,
+        scroll: true,
+        keyRepeat: { delay: 0, interval: 0 },
+      });
+      repeatEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+      jest
+        .spyOn(repeatEngine['scrollManager'] as ScrollManager, 'isAnimating')
+        .mockReturnValue(true);
+
+      keyDown('ArrowRight', true);
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item1'));
+
+      // Fresh presses are never dropped
+      keyDown('ArrowRight');
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item2'));
+
+      repeatEngine.destroy();
+    });
+
+    it('should drop moves queued before the previous move was rendered', () => {
+      const repeatEngine = new FocusEngine({ autoInit: false, keyboard: true });
+      repeatEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+
+      keyDown('ArrowRight');
+      keyUp('ArrowRight');
+      keyDown('ArrowDown');
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item2'));
+
+      jest.advanceTimersByTime(16);
+      keyDown('ArrowDown');
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item4'));
+
+      repeatEngine.destroy();
+    });
+
+    it('should go back while the previous move is still being rendered', () => {
+      const repeatEngine = new FocusEngine({ autoInit: false, keyboard: true });
+      repeatEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+
+      keyDown('ArrowRight');
+      keyUp('ArrowRight');
+      keyDown('Escape');
+
+      expect(repeatEngine.activeElement).toBe(document.getElementById('item1'));
+      repeatEngine.destroy();
+    });
+
+    it('should tell short and long presses of Enter and Back apart', () => {
+      const onSelect = jest.fn();
+      const onLongSelect = jest.fn();
+      const onLongBack = jest.fn();
+      const longPressEngine = new FocusEngine({
+        autoInit: false,
+        keyboard: true,
+        onSelect,
+        onLongSelect,
+        onLongBack,
+        longPressDelay: 500,
+      });
+      longPressEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+      const item1 = document.getElementById('item1');
+
+      keyDown('Enter');
+      jest.advanceTimersByTime(100);
+      keyUp('Enter');
+      expect(onSelect).toHaveBeenCalledWith(item1);
+      expect(onLongSelect).not.toHaveBeenCalled();
+
+      keyDown('Enter');
+      jest.advanceTimersByTime(500);
+      keyDown('Enter', true);
+      keyUp('Enter');
+      expect(onLongSelect).toHaveBeenCalledTimes(1);
+      expect(onLongSelect).toHaveBeenCalledWith(item1);
+      expect(onSelect).toHaveBeenCalledTimes(1);
+
+      keyDown('Escape');
+      jest.advanceTimersByTime(500);
+      keyUp('Escape');
+      expect(onLongBack).toHaveBeenCalledWith(item1);
+
+      longPressEngine.destroy();
+    });
+  });
+
+  describe('Gamepad input', () => {
+    const buttons = new Array(17).fill(false);
+
+    beforeEach(() => {
+      buttons.fill(false);
+      Object.defineProperty(navigator, 'getGamepads', {
+        configurable: true,
+        value: () => [
+          { connected: true, axes: [0, 0, 0, 0], buttons: buttons.map((pressed) => ({ pressed })) },
+        ],
+      });
+    });
+
+    afterEach(() => {
+      delete (navigator as { getGamepads?: unknown }).getGamepads;
+    });
+
+    it('should navigate with the D-pad and stop polling when destroyed', () => {
+      const gamepadEngine = new FocusEngine({ autoInit: false, gamepad: true });
+      gamepadEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+
+      buttons[15] = true; // D-pad right
+      jest.advanceTimersByTime(16);
+      expect(gamepadEngine.activeElement).toBe(document.getElementById('item2'));
+
+      gamepadEngine.destroy();
+      buttons[15] = false;
+      jest.advanceTimersByTime(16);
+      buttons[14] = true; // D-pad left
+      jest.advanceTimersByTime(16);
+      expect(document.activeElement).toBe(document.getElementById('item2'));
+    });
+  });
+
+  describe('Pointer input', () => {
+    let pointerEngine: FocusEngine;
+
+    const pointerMove = (id: string) =>
+      document.getElementById(id)?.dispatchEvent(new MouseEvent('mousemove', { bubbles: true }));
+
+    beforeEach(() => {
+      pointerEngine = new FocusEngine({ autoInit: false, keyboard: true, pointer: true });
+      pointerEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      pointerEngine.destroy();
+    });
+
+    it('should focus hovered elements without scrolling', () => {
+      const item4 = document.getElementById('item4') as HTMLElement;
+      const focusSpy = jest.spyOn(item4, 'focus');
+
+      pointerMove('item4');
+
+      expect(pointerEngine.activeElement).toBe(item4);
+      expect(item4.classList.contains('focus-engine-active')).toBe(true);
+      expect(focusSpy).toHaveBeenCalledWith({ preventScroll: true });
+    });
+
+    it('should select clicked elements', () => {
+      const onSelect = jest.fn();
+      pointerEngine.on('select', onSelect);
+
+      document.getElementById('item2')?.click();
+
+      expect(pointerEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(onSelect).toHaveBeenCalledWith({ element: document.getElementById('item2') });
+    });
+
+    it('should switch between pointer and key modality', () => {
+      const onModalityChange = jest.fn();
+      pointerEngine.on('modalityChange', onModalityChange);
+      const root = document.documentElement;
+
+      pointerMove('item1');
+      expect(pointerEngine.getInputModality()).toBe('pointer');
+      expect(root.classList.contains('focus-engine-pointer')).toBe(true);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      expect(pointerEngine.getInputModality()).toBe('key');
+      expect(root.classList.contains('focus-engine-pointer')).toBe(false);
+      expect(pointerEngine.activeElement).toBe(document.getElementById('item2'));
+
+      expect(onModalityChange.mock.calls).toEqual([
+        [{ modality: 'pointer' }],
+        [{ modality: 'key' }],
+      ]);
+    });
+
+    it('should stop tracking the pointer when destroyed', () => {
+      pointerMove('item1');
+      pointerEngine.destroy();
+
+      pointerMove('item4');
+
+      expect(document.documentElement.classList.contains('focus-engine-pointer')).toBe(false);
+      expect(document.activeElement).toBe(document.getElementById('item1'));
+    });
+  });
+
+  describe('DOM observation', () => {
+    let observingEngine: FocusEngine;
+
+    // MutationObserver callbacks are delivered as microtasks
+    const flushMutations = () => Promise.resolve();
+
+    beforeEach(() => {
+      observingEngine = new FocusEngine({ autoInit: false, observe: true });
+      observingEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      observingEngine.destroy();
+    });
+
+    it('should pick up added elements without a manual update', async () => {
+      const newElement = document.createElement('div');
+      newElement.className = 'focusable';
+      newElement.id = 'item5';
+      document.querySelector('.grid-container')?.appendChild(newElement);
+      await flushMutations();
+
+      // The tabindex fix-up is applied to added nodes as well
+      expect(newElement.getAttribute('tabindex')).toBe('0');
+
+      document.getElementById('item4')?.focus();
+      observingEngine.triggerArrowRight();
+
+      expect(observingEngine.activeElement).toBe(newElement);
+    });
+
+    it('should drop elements that no longer match the selector', async () => {
+      document.getElementById('item2')?.setAttribute('tabindex', '-1');
+      await flushMutations();
+
+      observingEngine.triggerArrowRight();
+
+      expect(observingEngine.activeElement).toBe(document.getElementById('item1'));
+    });
+
+    it('should move focus to a neighbour when the active element is removed', async () => {
+      document.getElementById('item1')?.remove();
+      await flushMutations();
+
+      expect(observingEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(document.activeElement).toBe(document.getElementById('item2'));
+      expect(observingEngine.getCurrentFocusIndex()).toBe(0);
+    });
+
+    it('should ignore attribute changes that cannot affect navigation', async () => {
+      const handleMutations = jest.spyOn(
+        observingEngine as unknown as { handleMutations: () => void },
+        'handleMutations'
+      );
+      observingEngine.destroy();
+      observingEngine.init();
+      jest.advanceTimersByTime(300);
+      await flushMutations();
+      handleMutations.mockClear();
+
+      document.getElementById('item2')?.setAttribute('aria-label', 'Item two');
+      document.getElementById('item2')?.style.setProperty('opacity', '0.5');
+      await flushMutations();
+      expect(handleMutations).not.toHaveBeenCalled();
+
+      document.getElementById('item2')?.setAttribute('data-focus-child-of', 'movies');
+      await flushMutations();
+      expect(handleMutations).toHaveBeenCalled();
+    });
+
+    it('should stop observing when destroyed', async () => {
+      observingEngine.destroy();
+
+      document.getElementById('item1')?.remove();
+      await flushMutations();
+
+      expect(observingEngine.activeElement).toBeNull();
+    });
+  });
+
+  describe('Events', () => {
+    let eventEngine: FocusEngine;
+
+    beforeEach(() => {
+      addParentChildGroup();
+      eventEngine = new FocusEngine({ autoInit: false });
+      eventEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      eventEngine.destroy();
+    });
+
+    it('should emit willMove, blur and focus when moving', () => {
+      const calls: string[] = [];
+      eventEngine.on('willMove', (event) => {
+        calls.push(`willMove:${event.source?.id}->${event.target.id}:${event.direction}`);
+      });
+      eventEngine.on('blur', ({ element }) => calls.push(`blur:${element.id}`));
+      eventEngine.on('focus', ({ element }) => calls.push(`focus:${element.id}`));
+
+      eventEngine.triggerArrowRight();
+
+      expect(calls).toEqual(['willMove:item1->item2:ArrowRight', 'blur:item1', 'focus:item2']);
+    });
+
+    it('should keep focus when willMove is canceled', () => {
+      eventEngine.on('willMove', (event) => event.preventDefault());
+
+      eventEngine.triggerArrowRight();
+
+      expect(eventEngine.activeElement).toBe(document.getElementById('item1'));
+      expect(document.activeElement).toBe(document.getElementById('item1'));
+    });
+
+    it('should emit edgeReached when there is no candidate', () => {
+      const onEdge = jest.fn();
+      eventEngine.on('edgeReached', onEdge);
+
+      eventEngine.triggerArrowLeft();
+
+      expect(onEdge).toHaveBeenCalledWith({
+        element: document.getElementById('item1'),
+        direction: 'ArrowLeft',
+      });
+    });
+
+    it('should emit select on Enter', () => {
+      const onSelect = jest.fn();
+      eventEngine.on('select', onSelect);
+
+      eventEngine.triggerEnter();
+
+      expect(onSelect).toHaveBeenCalledWith({ element: document.getElementById('item1') });
+    });
+
+    it('should emit group transitions and back', () => {
+      const menu = document.getElementById('menu') as HTMLElement;
+      const childA = document.getElementById('childA') as HTMLElement;
+      const onEnterGroup = jest.fn();
+      const onLeaveGroup = jest.fn();
+      const onBack = jest.fn();
+      eventEngine.on('enterGroup', onEnterGroup);
+      eventEngine.on('leaveGroup', onLeaveGroup);
+      eventEngine.on('back', onBack);
+
+      menu.focus();
+      eventEngine.triggerArrowRight();
+      expect(onEnterGroup).toHaveBeenCalledWith({ parentId: 'movies', element: childA });
+
+      eventEngine.triggerBack();
+      expect(onLeaveGroup).toHaveBeenCalledWith({ parentId: 'movies', element: childA });
+      expect(onBack).toHaveBeenCalledWith({ from: childA, to: menu });
+    });
+
+    it('should support once and off', () => {
+      const onceHandler = jest.fn();
+      const offHandler = jest.fn();
+      eventEngine.once('focus', onceHandler);
+      eventEngine.on('focus', offHandler);
+      eventEngine.off('focus', offHandler);
+
+      eventEngine.triggerArrowRight();
+      eventEngine.triggerArrowDown();
+
+      expect(onceHandler).toHaveBeenCalledTimes(1);
+      expect(offHandler).not.toHaveBeenCalled();
+    });
+
+    it('should remove a once handler with off', () => {
+      const onceHandler = jest.fn();
+      eventEngine.once('focus', onceHandler);
+      eventEngine.off('focus', onceHandler);
+
+      eventEngine.triggerArrowRight();
+
+      expect(onceHandler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sections', () => {
+    let sectionEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    function createSectionEngine(sections: FocusSection[]) {
+      sectionEngine = new FocusEngine({ autoInit: false, sections });
+      sectionEngine.init();
+      jest.advanceTimersByTime(300); // Focus m1
+    }
+
+    beforeEach(() => {
+      document.body.innerHTML = `
+        <div class="menu">
+          <div id="m1" class="focusable" tabindex="0">Home</div>
+          <div id="m2" class="focusable" tabindex="0">Settings</div>
+        </div>
+        <div class="content">
+          <div id="c1" class="focusable" tabindex="0">Card 1</div>
+          <div id="c2" class="focusable" tabindex="0">Card 2</div>
+          <div id="c3" class="focusable" tabindex="0">Card 3</div>
+        </div>
+      `;
+    });
+
+    afterEach(() => {
+      sectionEngine.destroy();
+    });
+
+    it('should prefer candidates inside the current section', () => {
+      createSectionEngine([
+        { id: 'menu', selector: '.menu' },
+        { id: 'content', selector: '.content' },
+      ]);
+
+      // c3 is closer, but m2 is in the same section
+      sectionEngine.triggerArrowDown();
+
+      expect(sectionEngine.activeElement).toBe(byId('m2'));
+    });
+
+    it('should cross sections when no candidate is left inside', () => {
+      createSectionEngine([
+        { id: 'menu', selector: '.menu' },
+        { id: 'content', selector: '.content' },
+      ]);
+
+      sectionEngine.triggerArrowRight();
+
+      expect(sectionEngine.activeElement).toBe(byId('c1'));
+    });
+
+    it('should block leaving a section', () => {
+      createSectionEngine([
+        { id: 'menu', selector: '.menu' },
+        { id: 'content', selector: '.content', leaveFor: { ArrowLeft: 'block' } },
+      ]);
+      const onEdge = jest.fn();
+      sectionEngine.on('edgeReached', onEdge);
+      byId('c1').focus();
+
+      sectionEngine.triggerArrowLeft();
+
+      expect(sectionEngine.activeElement).toBe(byId('c1'));
+      expect(onEdge).toHaveBeenCalled();
+    });
+
+    it('should jump to a named section using its default element', () => {
+      createSectionEngine([
+        { id: 'menu', selector: '.menu', enterTo: 'default', defaultElement: '#m2' },
+        { id: 'content', selector: '.content', leaveFor: { ArrowUp: { section: 'menu' } } },
+      ]);
+      byId('c1').focus();
+
+      sectionEngine.triggerArrowUp();
+
+      expect(sectionEngine.activeElement).toBe(byId('m2'));
+    });
+
+    it('should enter a section at its last focused element', () => {
+      createSectionEngine([
+        { id: 'menu', selector: '.menu' },
+        { id: 'content', selector: '.content', enterTo: 'last-focused' },
+      ]);
+      byId('c2').focus();
+      byId('m1').focus();
+
+      sectionEngine.triggerArrowRight();
+
+      expect(sectionEngine.activeElement).toBe(byId('c2'));
+    });
+
+    it('should add, focus and remove sections at runtime', () => {
+      createSectionEngine([]);
+      sectionEngine.addSection({ id: 'content', selector: '.content', enterTo: 'first' });
+
+      expect(sectionEngine.focusSection('content')).toBe(true);
+      expect(sectionEngine.activeElement).toBe(byId('c1'));
+
+      sectionEngine.removeSection('content');
+      expect(sectionEngine.focusSection('content')).toBe(false);
+    });
+  });
+
+  describe('Dwell and prefetch', () => {
+    it('should raise onDwell once focus rests and not while passing through', () => {
+      const onDwell = jest.fn();
+      const dwellEngine = new FocusEngine({ autoInit: false, onDwell, dwellDelay: 500 });
+      dwellEngine.init();
+      jest.advanceTimersByTime(300);
+
+      dwellEngine.triggerArrowRight();
+      jest.advanceTimersByTime(200);
+      dwellEngine.triggerArrowDown();
+      jest.advanceTimersByTime(200);
+      expect(onDwell).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(300);
+      expect(onDwell).toHaveBeenCalledTimes(1);
+      expect(onDwell).toHaveBeenCalledWith(document.getElementById('item4'), 500);
+
+      jest.advanceTimersByTime(1000);
+      expect(onDwell).toHaveBeenCalledTimes(1);
+      dwellEngine.destroy();
+    });
+
+    it('should emit dwell and pass the likely neighbours to onPrefetch', () => {
+      const onPrefetch = jest.fn();
+      const dwell = jest.fn();
+      const dwellEngine = new FocusEngine({ autoInit: false, onPrefetch });
+      dwellEngine.on('dwell', dwell);
+      dwellEngine.init();
+      jest.advanceTimersByTime(700);
+
+      const item1 = document.getElementById('item1');
+      expect(dwell).toHaveBeenCalledWith({ element: item1, ms: 600 });
+      expect(onPrefetch).toHaveBeenCalledWith(item1, {
+        ArrowUp: null,
+        ArrowDown: document.getElementById('item3'),
+        ArrowLeft: null,
+        ArrowRight: document.getElementById('item2'),
+      });
+      dwellEngine.destroy();
+    });
+
+    it('should keep going when onDwell throws', () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation();
+      const onPrefetch = jest.fn();
+      const dwellEngine = new FocusEngine({
+        autoInit: false,
+        onDwell: () => {
+          throw new Error('preview failed');
+        },
+        onPrefetch,
+      });
+      dwellEngine.init();
+
+      jest.advanceTimersByTime(700);
+
+      expect(onPrefetch).toHaveBeenCalled();
+      expect(errorSpy).toHaveBeenCalledWith('Error in dwell callback:', expect.any(Error));
+      errorSpy.mockRestore();
+      dwellEngine.destroy();
+    });
+
+    it('should not time dwells without a consumer', () => {
+      const setTimeoutSpy = jest.spyOn(window, 'setTimeout');
+      const dwellEngine = new FocusEngine({ autoInit: false, dwellDelay: 1234 });
+      dwellEngine.init();
+      jest.advanceTimersByTime(300);
+      dwellEngine.triggerArrowRight();
+
+      expect(setTimeoutSpy).not.toHaveBeenCalledWith(expect.any(Function), 1234);
+      setTimeoutSpy.mockRestore();
+      dwellEngine.destroy();
+    });
+
+    it('should time the focused element when the first dwell handler is added', () => {
+      const dwell = jest.fn();
+      const dwellEngine = new FocusEngine({ autoInit: false, dwellDelay: 500 });
+      dwellEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+
+      dwellEngine.on('dwell', dwell);
+      jest.advanceTimersByTime(500);
+
+      expect(dwell).toHaveBeenCalledWith({ element: document.getElementById('item1'), ms: 500 });
+      dwellEngine.destroy();
+    });
+
+    it('should follow overrides when listing neighbours', () => {
+      const item2 = document.getElementById('item2') as HTMLElement;
+      item2.setAttribute('data-focus-down', 'none');
+      item2.setAttribute('data-focus-left', 'item4');
+      const dwellEngine = new FocusEngine({ autoInit: false });
+      dwellEngine.init();
+      jest.advanceTimersByTime(300);
+
+      expect(dwellEngine.getNeighbours(item2)).toEqual({
+        ArrowUp: null,
+        ArrowDown: null,
+        ArrowLeft: document.getElementById('item4'),
+        ArrowRight: null,
+      });
+      dwellEngine.destroy();
+    });
+  });
+
+  describe('Focus history', () => {
+    let historyEngine: FocusEngine;
+    let onBackUnhandled: jest.Mock;
+
+    beforeEach(() => {
+      onBackUnhandled = jest.fn();
+      historyEngine = new FocusEngine({ autoInit: false, onBackUnhandled });
+      historyEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      historyEngine.destroy();
+    });
+
+    it('should walk back through previously focused elements', () => {
+      historyEngine.triggerArrowRight();
+      historyEngine.triggerArrowDown();
+      expect(historyEngine.activeElement).toBe(document.getElementById('item4'));
+
+      expect(historyEngine.goBack()).toBe(true);
+      expect(historyEngine.activeElement).toBe(document.getElementById('item2'));
+
+      expect(historyEngine.goBack()).toBe(true);
+      expect(historyEngine.activeElement).toBe(document.getElementById('item1'));
+
+      expect(historyEngine.goBack()).toBe(false);
+      expect(onBackUnhandled).toHaveBeenCalledWith(document.getElementById('item1'));
+    });
+
+    it('should skip removed and hidden elements', () => {
+      historyEngine.triggerArrowDown(); // item3
+      historyEngine.triggerArrowRight(); // item4
+      historyEngine.triggerArrowUp(); // item2
+
+      document.getElementById('item4')?.remove();
+      Object.defineProperty(document.getElementById('item3'), 'offsetParent', { get: () => null });
+
+      historyEngine.goBack();
+
+      expect(historyEngine.activeElement).toBe(document.getElementById('item1'));
+      expect(historyEngine.getFocusHistory()).toEqual([]);
+    });
+
+    it('should fall back to the parent jump', () => {
+      addParentChildGroup();
+      historyEngine.updateFocusableElements();
+      document.getElementById('childA')?.focus();
+      historyEngine.clearFocusHistory();
+
+      historyEngine.goBack();
+
+      expect(historyEngine.activeElement).toBe(document.getElementById('menu'));
+      expect(onBackUnhandled).not.toHaveBeenCalled();
+    });
+
+    it('should jump to the parent before walking the history when asked to', () => {
+      historyEngine.destroy();
+      addParentChildGroup();
+      historyEngine = new FocusEngine({ autoInit: false, backToParentFirst: true });
+      historyEngine.init();
+      jest.advanceTimersByTime(300);
+      document.getElementById('childA')?.focus();
+      historyEngine.triggerArrowRight(); // childB
+
+      historyEngine.goBack();
+
+      expect(historyEngine.activeElement).toBe(document.getElementById('menu'));
+    });
+
+    it('should emit back when returning through the history', () => {
+      const onBack = jest.fn();
+      historyEngine.on('back', onBack);
+      historyEngine.triggerArrowRight();
+
+      historyEngine.goBack();
+
+      expect(onBack).toHaveBeenCalledWith({
+        from: document.getElementById('item2'),
+        to: document.getElementById('item1'),
+      });
+    });
+
+    it('should keep a bounded history with group context', () => {
+      historyEngine.destroy();
+      addParentChildGroup();
+      historyEngine = new FocusEngine({ autoInit: false, historySize: 2 });
+      historyEngine.init();
+      jest.advanceTimersByTime(300);
+
+      historyEngine.triggerArrowRight(); // item2
+      document.getElementById('childA')?.focus();
+      document.getElementById('childB')?.focus();
+
+      expect(historyEngine.getFocusHistory()).toEqual([
+        { element: document.getElementById('item2'), section: null, group: null },
+        { element: document.getElementById('childA'), section: null, group: 'movies' },
+      ]);
+    });
+
+    it('should go back through the history on the Back key', () => {
+      const keyboardEngine = new FocusEngine({ autoInit: false, keyboard: true });
+      keyboardEngine.init();
+      jest.advanceTimersByTime(300);
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowDown' }));
+      jest.advanceTimersByTime(16); // Render the move
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('item1'));
+      keyboardEngine.destroy();
+    });
+
+    it('should leave a parent group on the Back key after moving inside it', () => {
+      addParentChildGroup();
+      const keyboardEngine = new FocusEngine({
+        autoInit: false,
+        keyboard: true,
+        backToParentFirst: true,
+      });
+      keyboardEngine.init();
+      jest.advanceTimersByTime(300);
+      document.getElementById('childA')?.focus();
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      jest.advanceTimersByTime(16); // Render the move
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('childB'));
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+
+      expect(keyboardEngine.activeElement).toBe(document.getElementById('menu'));
+      keyboardEngine.destroy();
+    });
+  });
+
+  describe('Focus state', () => {
+    let stateEngine: FocusEngine;
+
+    // MutationObserver callbacks are delivered as microtasks
+    const flushMutations = () => Promise.resolve();
+
+    beforeEach(() => {
+      addParentChildGroup();
+      document.querySelectorAll<HTMLElement>('.focusable').forEach((el) => {
+        el.setAttribute('data-focus-key', el.id);
+      });
+      stateEngine = new FocusEngine({ autoInit: false });
+      stateEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      stateEngine.destroy();
+    });
+
+    it('should save a serializable snapshot keyed by focus keys', () => {
+      document.getElementById('childB')?.focus();
+      document.getElementById('item2')?.focus();
+
+      const state = JSON.parse(JSON.stringify(stateEngine.saveState()));
+
+      expect(state).toEqual({ active: 'item2', parents: { movies: 'childB' }, sections: {} });
+    });
+
+    it('should restore a snapshot', async () => {
+      const restored = stateEngine.restoreState({
+        active: 'menu',
+        parents: { movies: 'childB' },
+        sections: {},
+      });
+
+      await expect(restored).resolves.toBe(true);
+      expect(stateEngine.activeElement).toBe(document.getElementById('menu'));
+
+      // The parent remembers the restored child
+      stateEngine.triggerEnter();
+      expect(stateEngine.activeElement).toBe(document.getElementById('childB'));
+    });
+
+    it('should wait for the focused element to be rendered', async () => {
+      const restored = stateEngine.restoreState({ active: 'late', parents: {}, sections: {} });
+
+      document
+        .querySelector('.grid-container')
+        ?.insertAdjacentHTML(
+          'beforeend',
+          '<div id="item5" class="focusable" tabindex="0" data-focus-key="late"></div>'
+        );
+      await flushMutations();
+
+      await expect(restored).resolves.toBe(true);
+      expect(stateEngine.activeElement).toBe(document.getElementById('item5'));
+    });
+
+    it('should fall back to initial focus after the timeout', async () => {
+      document.getElementById('item2')?.focus();
+
+      const restored = stateEngine.restoreState(
+        { active: 'missing', parents: {}, sections: {} },
+        500
+      );
+      jest.advanceTimersByTime(500);
+
+      await expect(restored).resolves.toBe(false);
+      expect(stateEngine.activeElement).toBe(document.getElementById('item1'));
+    });
+
+    it('should use a key resolver', () => {
+      const resolverEngine = new FocusEngine({
+        autoInit: false,
+        keyResolver: (element) => element.textContent,
+      });
+      resolverEngine.init();
+      jest.advanceTimersByTime(300);
+
+      expect(resolverEngine.saveState().active).toBe('Item 1');
+      resolverEngine.destroy();
+    });
+  });
+
+  describe('Scoping roots', () => {
+    let mainEngine: FocusEngine;
+    let pipEngine: FocusEngine;
+
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div id="pip">
+          <div id="pipA" class="focusable" tabindex="0">PiP A</div>
+          <div id="pipB" class="focusable" tabindex="0">PiP B</div>
+          <div id="pipUntabbed" class="focusable">PiP C</div>
+        </div>
+      `
+      );
+      const grid = document.querySelector('.grid-container') as HTMLElement;
+      const pip = document.getElementById('pip') as HTMLElement;
+
+      mainEngine = new FocusEngine({ autoInit: false, keyboard: true, root: grid });
+      pipEngine = new FocusEngine({ autoInit: false, keyboard: true, root: pip, tabIndexAttr: -1 });
+      mainEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+      pipEngine.init();
+      jest.advanceTimersByTime(300);
+    });
+
+    afterEach(() => {
+      mainEngine.destroy();
+      pipEngine.destroy();
+    });
+
+    it('should only query and fix up elements inside the root', () => {
+      mainEngine.triggerArrowRight();
+      mainEngine.triggerArrowRight();
+
+      // pipA lies right of item2 but belongs to the other engine
+      expect(mainEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(document.getElementById('pipUntabbed')?.getAttribute('tabindex')).toBe('-1');
+
+      pipEngine.triggerArrowRight();
+      expect(pipEngine.activeElement).toBe(document.getElementById('pipB'));
+    });
+
+    it('should only handle keys pressed inside the root', () => {
+      document.getElementById('pipA')?.focus();
+
+      document.activeElement?.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true })
+      );
+
+      expect(pipEngine.activeElement).toBe(document.getElementById('pipB'));
+      expect(mainEngine.activeElement).toBe(document.getElementById('item1'));
+    });
+
+    it('should handle keys pressed outside every root in the engine that owns input', () => {
+      const coordinator = new FocusCoordinator();
+      coordinator.register(mainEngine);
+      coordinator.register(pipEngine);
+      coordinator.activate(pipEngine);
+      jest.advanceTimersByTime(16); // Render the move
+      (document.activeElement as HTMLElement).blur();
+
+      document.body.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true })
+      );
+
+      expect(pipEngine.activeElement).toBe(document.getElementById('pipB'));
+      expect(mainEngine.activeElement).toBe(document.getElementById('item1'));
+    });
+
+    it('should handle keys outside the root in one engine only', () => {
+      (document.activeElement as HTMLElement).blur();
+
+      document.body.dispatchEvent(
+        new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true })
+      );
+
+      expect(mainEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(pipEngine.activeElement).not.toBe(document.getElementById('pipB'));
+    });
+
+    it('should work inside a shadow root', () => {
+      const host = document.createElement('div');
+      document.body.appendChild(host);
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      shadowRoot.innerHTML = `
+        <div id="shadowA" class="focusable" tabindex="0">A</div>
+        <div id="shadowB" class="focusable" tabindex="0">B</div>
+      `;
+
+      const shadowEngine = new FocusEngine({ autoInit: false, root: shadowRoot });
+      shadowEngine.init();
+      jest.advanceTimersByTime(300);
+      shadowEngine.triggerArrowRight();
+
+      expect(shadowEngine.activeElement).toBe(shadowRoot.getElementById('shadowB'));
+      expect(shadowRoot.activeElement).toBe(shadowRoot.getElementById('shadowB'));
+      shadowEngine.destroy();
+    });
+
+    it('should not take initial focus while input is disabled', () => {
+      const idleEngine = new FocusEngine({
+        autoInit: false,
+        root: document.getElementById('pip') as HTMLElement,
+      });
+      idleEngine.setInputEnabled(false);
+      document.getElementById('item3')?.focus();
+
+      idleEngine.init();
+      jest.advanceTimersByTime(300);
+
+      expect(document.activeElement).toBe(document.getElementById('item3'));
+      idleEngine.destroy();
+    });
+
+    it('should hand input over with a coordinator', () => {
+      const coordinator = new FocusCoordinator();
+      coordinator.register(mainEngine);
+      coordinator.register(pipEngine);
+      expect(coordinator.getOwner()).toBe(mainEngine);
+      expect(pipEngine.isInputEnabled()).toBe(false);
+
+      coordinator.activate(pipEngine);
+
+      expect(coordinator.getOwner()).toBe(pipEngine);
+      expect(mainEngine.isInputEnabled()).toBe(false);
+      expect(document.activeElement).toBe(document.getElementById('pipA'));
+
+      // The main engine ignores keys even when they reach its root
+      document
+        .getElementById('item1')
+        ?.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight', bubbles: true }));
+      expect(mainEngine.activeElement).toBe(document.getElementById('item1'));
+
+      coordinator.activate(mainEngine);
+      expect(document.activeElement).toBe(document.getElementById('item1'));
+    });
+  });
+
+  describe('Shadow DOM', () => {
+    // A web component right of item2 with a parent and a child inside its shadow root
+    const addComponent = () => {
+      const host = document.createElement('div');
+      document.querySelector('.grid-container')?.appendChild(host);
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      shadowRoot.innerHTML = `
+        <div id="pipA" class="focusable" tabindex="0" data-focus-parent="extras">Extras</div>
+        <div id="pipB" class="focusable" tabindex="0" data-focus-child-of="extras">Trailer</div>
+      `;
+      return shadowRoot;
+    };
+
+    it('should ignore shadow content unless enabled', () => {
+      addComponent();
+      const lightEngine = new FocusEngine({ autoInit: false });
+      lightEngine.init();
+      jest.advanceTimersByTime(300);
+
+      lightEngine.triggerArrowRight();
+      lightEngine.triggerArrowRight();
+
+      expect(lightEngine.activeElement).toBe(document.getElementById('item2'));
+      lightEngine.destroy();
+    });
+
+    it('should navigate into shadow roots with parent and child attributes', () => {
+      const shadowRoot = addComponent();
+      const shadowEngine = new FocusEngine({ autoInit: false, shadowDom: true });
+      shadowEngine.init();
+      jest.advanceTimersByTime(300);
+
+      shadowEngine.triggerArrowRight();
+      shadowEngine.triggerArrowRight();
+      expect(shadowEngine.activeElement).toBe(shadowRoot.getElementById('pipA'));
+
+      shadowEngine.triggerEnter();
+      expect(shadowEngine.activeElement).toBe(shadowRoot.getElementById('pipB'));
+
+      shadowEngine.triggerBack();
+      expect(shadowEngine.activeElement).toBe(shadowRoot.getElementById('pipA'));
+      shadowEngine.destroy();
+    });
+
+    it('should pick up components added later when observing', async () => {
+      const shadowEngine = new FocusEngine({ autoInit: false, shadowDom: true, observe: true });
+      shadowEngine.init();
+      jest.advanceTimersByTime(300);
+
+      const shadowRoot = addComponent();
+      await Promise.resolve();
+      shadowEngine.triggerArrowRight();
+      shadowEngine.triggerArrowRight();
+
+      expect(shadowEngine.activeElement).toBe(shadowRoot.getElementById('pipA'));
+      shadowEngine.destroy();
+    });
+  });
+
+  describe('Frames', () => {
+    const origin = window.location.origin;
+
+    const addFrame = (focusable: boolean) => {
+      const iframe = document.createElement('iframe');
+      iframe.id = 'frame';
+      if (focusable) {
+        iframe.className = 'focusable';
+        iframe.tabIndex = 0;
+      }
+      document.querySelector('.grid-container')?.appendChild(iframe);
+      return iframe;
+    };
+
+    // jsdom's postMessage sets neither source nor origin, so messages are dispatched directly
+    const receive = (data: unknown, source: Window | null, from = origin) => {
+      window.dispatchEvent(new MessageEvent('message', { data, origin: from, source }));
+    };
+
+    it('should hand navigation to a registered frame with the entry point', () => {
+      const iframe = addFrame(true);
+      const post = jest.spyOn(iframe.contentWindow as Window, 'postMessage').mockImplementation();
+      const parentEngine = new FocusEngine({ autoInit: false });
+      parentEngine.init();
+      parentEngine.registerFrame(iframe);
+      jest.advanceTimersByTime(300);
+
+      parentEngine.triggerArrowRight();
+      parentEngine.triggerArrowRight();
+
+      expect(parentEngine.activeElement).toBe(iframe);
+      expect(post).toHaveBeenCalledWith(
+        {
+          type: 'focus-engine:enter',
+          direction: 'ArrowRight',
+          rect: { top: 0, left: -120, right: -20, bottom: 100, width: 100, height: 100 },
+        },
+        origin
+      );
+      parentEngine.destroy();
+    });
+
+    it('should hand navigation to a registered frame that does not match the selector', () => {
+      const iframe = addFrame(false);
+      const post = jest.spyOn(iframe.contentWindow as Window, 'postMessage').mockImplementation();
+      const parentEngine = new FocusEngine({ autoInit: false });
+      parentEngine.init();
+      jest.advanceTimersByTime(300);
+      const unregister = parentEngine.registerFrame(iframe);
+
+      parentEngine.triggerArrowRight();
+      parentEngine.triggerArrowRight();
+
+      expect(parentEngine.activeElement).toBe(iframe);
+      expect(post).toHaveBeenCalledWith(
+        expect.objectContaining({ type: 'focus-engine:enter', direction: 'ArrowRight' }),
+        origin
+      );
+
+      unregister();
+      document.getElementById('item2')?.focus();
+      parentEngine.triggerArrowRight();
+      expect(parentEngine.activeElement).toBe(document.getElementById('item2'));
+      parentEngine.destroy();
+    });
+
+    it('should continue the move when the frame hands navigation back', () => {
+      const iframe = addFrame(true);
+      jest.spyOn(iframe.contentWindow as Window, 'postMessage').mockImplementation();
+      const parentEngine = new FocusEngine({ autoInit: false });
+      parentEngine.init();
+      const unregister = parentEngine.registerFrame(iframe);
+      jest.advanceTimersByTime(300);
+      iframe.focus();
+
+      const exit = {
+        type: 'focus-engine:exit',
+        direction: 'ArrowLeft',
+        rect: { top: 120, left: 0, right: 100, bottom: 220, width: 100, height: 100 },
+      };
+      receive(exit, iframe.contentWindow, 'https://evil.example');
+      receive(exit, window);
+      expect(parentEngine.activeElement).toBe(iframe);
+
+      receive(exit, iframe.contentWindow);
+      expect(parentEngine.activeElement).toBe(document.getElementById('item4'));
+
+      iframe.focus();
+      unregister();
+      receive(exit, iframe.contentWindow);
+      expect(parentEngine.activeElement).toBe(iframe);
+      parentEngine.destroy();
+    });
+
+    it('should take over inside a frame and hand back at the edge', () => {
+      // The parent page is played by another window
+      const parentWindow = addFrame(false).contentWindow as Window;
+      const post = jest.spyOn(parentWindow, 'postMessage').mockImplementation();
+      const childEngine = new FocusEngine({ autoInit: false, frame: { parent: parentWindow } });
+      childEngine.init();
+      jest.advanceTimersByTime(300);
+
+      receive(
+        {
+          type: 'focus-engine:enter',
+          direction: 'ArrowDown',
+          rect: { top: -100, left: 120, right: 220, bottom: -20, width: 100, height: 100 },
+        },
+        parentWindow
+      );
+      expect(childEngine.activeElement).toBe(document.getElementById('item2'));
+
+      childEngine.triggerArrowRight();
+      expect(childEngine.activeElement).toBe(document.getElementById('item2'));
+      expect(post).toHaveBeenCalledWith(
+        {
+          type: 'focus-engine:exit',
+          direction: 'ArrowRight',
+          rect: { top: 0, left: 120, right: 220, bottom: 100, width: 100, height: 100 },
+        },
+        origin
+      );
+      childEngine.destroy();
+    });
+  });
+
+  describe('Grid mode', () => {
+    const addGrid = (attribute = true) => {
+      document.querySelector('.grid-container')?.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div id="grid"${attribute ? ' data-focus-grid' : ''}>
+          <div id="g0" class="focusable" tabindex="0">G0</div>
+          <div id="g1" class="focusable" tabindex="0">G1</div>
+          <div id="g2" class="focusable" tabindex="0">G2</div>
+          <div id="g3" class="focusable" tabindex="0">G3</div>
+          <div id="g4" class="focusable" tabindex="0">G4</div>
+        </div>
+      `
+      );
+      return document.getElementById('grid') as HTMLElement;
+    };
+
+    it('should rebuild grid layouts when a layer is pushed or popped', () => {
+      const grid = addGrid();
+      const panel = document.createElement('div');
+      panel.append(
+        document.getElementById('g3') as HTMLElement,
+        document.getElementById('g4') as HTMLElement
+      );
+      grid.appendChild(panel);
+      const gridEngine = new FocusEngine({ autoInit: false });
+      gridEngine.init();
+      jest.advanceTimersByTime(300);
+      gridEngine.focusCell(1, 0, grid);
+
+      // Only the cells inside the layer form the grid
+      gridEngine.pushLayer(panel);
+      expect(gridEngine.focusCell(0, 1, grid)).toBe(true);
+      expect(gridEngine.activeElement).toBe(document.getElementById('g4'));
+
+      gridEngine.popLayer();
+      expect(gridEngine.focusCell(0, 2, grid)).toBe(true);
+      expect(gridEngine.activeElement).toBe(document.getElementById('g2'));
+      gridEngine.destroy();
+    });
+
+    it('should navigate a ragged grid by row and column', () => {
+      addGrid();
+      const gridEngine = new FocusEngine({ autoInit: false });
+      gridEngine.init();
+      jest.advanceTimersByTime(300);
+
+      expect(gridEngine.focusCell(0, 2)).toBe(true);
+      expect(gridEngine.activeElement).toBe(document.getElementById('g2'));
+
+      // The last row is shorter, so the nearest column is taken
+      gridEngine.triggerArrowDown();
+      expect(gridEngine.activeElement).toBe(document.getElementById('g4'));
+
+      gridEngine.triggerArrowUp();
+      expect(gridEngine.activeElement).toBe(document.getElementById('g1'));
+
+      gridEngine.triggerArrowDown();
+      gridEngine.triggerArrowRight();
+      expect(gridEngine.activeElement).toBe(document.getElementById('g4'));
+
+      // Leaving the grid falls back to spatial navigation
+      gridEngine.focusCell(0, 0);
+      gridEngine.triggerArrowUp();
+      expect(gridEngine.activeElement).toBe(document.getElementById('item3'));
+      gridEngine.destroy();
+    });
+
+    it('should report positions and emit row and column changes', () => {
+      addGrid();
+      const gridEngine = new FocusEngine({ autoInit: false });
+      gridEngine.init();
+      jest.advanceTimersByTime(300);
+      const rowChange = jest.fn();
+      const columnChange = jest.fn();
+      gridEngine.on('rowChange', rowChange);
+      gridEngine.on('columnChange', columnChange);
+
+      expect(gridEngine.getGridPosition(document.getElementById('g3') as HTMLElement)).toEqual({
+        row: 1,
+        col: 0,
+      });
+      expect(
+        gridEngine.getGridPosition(document.getElementById('item1') as HTMLElement)
+      ).toBeNull();
+
+      const grid = document.getElementById('grid');
+      gridEngine.focusCell(0, 0);
+      expect(rowChange).toHaveBeenLastCalledWith({
+        element: document.getElementById('g0'),
+        grid,
+        row: 0,
+        previous: null,
+      });
+      expect(columnChange).toHaveBeenLastCalledWith({
+        element: document.getElementById('g0'),
+        grid,
+        col: 0,
+        previous: null,
+      });
+
+      gridEngine.triggerArrowRight();
+      expect(rowChange).toHaveBeenCalledTimes(1);
+      expect(columnChange).toHaveBeenLastCalledWith({
+        element: document.getElementById('g1'),
+        grid,
+        col: 1,
+        previous: 0,
+      });
+
+      gridEngine.triggerArrowDown();
+      expect(rowChange).toHaveBeenLastCalledWith({
+        element: document.getElementById('g4'),
+        grid,
+        row: 1,
+        previous: 0,
+      });
+      expect(columnChange).toHaveBeenCalledTimes(2);
+      gridEngine.destroy();
+    });
+
+    it('should put a container into grid mode through the API', () => {
+      const grid = addGrid(false);
+      const gridEngine = new FocusEngine({ autoInit: false });
+      gridEngine.init();
+      jest.advanceTimersByTime(300);
+
+      expect(gridEngine.focusCell(1, 0)).toBe(false);
+
+      const unregister = gridEngine.registerGrid(grid);
+      expect(gridEngine.focusCell(1, 0)).toBe(true);
+      expect(gridEngine.activeElement).toBe(document.getElementById('g3'));
+      expect(gridEngine.focusCell(1, 2)).toBe(false);
+
+      unregister();
+      expect(gridEngine.getGridPosition(document.getElementById('g3') as HTMLElement)).toBeNull();
+      gridEngine.destroy();
+    });
+  });
+
+  describe('Geometry cache', () => {
+    const original = mockElementRects.item2;
+
+    afterEach(() => {
+      mockElementRects.item2 = original;
+    });
+
+    it('should reuse rects until an element is found to have moved', () => {
+      const cachedEngine = new FocusEngine({ autoInit: false, geometryCache: true });
+      cachedEngine.init();
+      jest.advanceTimersByTime(300);
+      cachedEngine.triggerArrowRight();
+      cachedEngine.triggerArrowLeft();
+
+      // item2 moves below item3 without an event the cache would notice
+      mockElementRects.item2 = {
+        top: 240,
+        left: 0,
+        right: 100,
+        bottom: 340,
+        width: 100,
+        height: 100,
+      };
+      cachedEngine.triggerArrowRight();
+      expect(cachedEngine.activeElement).toBe(document.getElementById('item2'));
+
+      // Focusing it revealed that it moved, so the next move uses fresh rects
+      cachedEngine.triggerArrowUp();
+      expect(cachedEngine.activeElement).toBe(document.getElementById('item3'));
+      cachedEngine.destroy();
+    });
+
+    it('should pick up elements added with updateFocusableElements', () => {
+      const cachedEngine = new FocusEngine({ autoInit: false, geometryCache: true });
+      cachedEngine.init();
+      jest.advanceTimersByTime(300);
+      cachedEngine.triggerArrowRight();
+
+      addParentChildGroup();
+      cachedEngine.updateFocusableElements();
+      cachedEngine.triggerArrowDown();
+      cachedEngine.triggerArrowDown();
+
+      expect(cachedEngine.activeElement).toBe(document.getElementById('childA'));
+      cachedEngine.destroy();
+    });
+  });
+
+  describe('Layers', () => {
+    let layerEngine: FocusEngine;
+    let drawer: HTMLElement;
+    let dialog: HTMLElement;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div id="drawer">
+          <div id="drawerItem" class="focusable" tabindex="0">Drawer item</div>
+        </div>
+        <div id="dialog">
+          <div id="dialogOk" class="focusable" tabindex="0" data-focus-child-of="grid">OK</div>
+          <div id="dialogCancel" class="focusable" tabindex="0">Cancel</div>
+        </div>
+      `
+      );
+      byId('item1').setAttribute('data-focus-parent', 'grid');
+      drawer = byId('drawer');
+      dialog = byId('dialog');
+
+      layerEngine = new FocusEngine({ autoInit: false });
+      layerEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      layerEngine.destroy();
+    });
+
+    it('should focus the layer and keep navigation inside it', () => {
+      layerEngine.pushLayer(dialog);
+      expect(layerEngine.activeElement).toBe(byId('dialogOk'));
+
+      layerEngine.triggerArrowRight();
+      expect(layerEngine.activeElement).toBe(byId('dialogCancel'));
+
+      // The grid is above the dialog, but outside the layer
+      layerEngine.triggerArrowUp();
+      expect(layerEngine.activeElement).toBe(byId('dialogCancel'));
+    });
+
+    it('should not go back to a parent outside the layer', () => {
+      layerEngine.pushLayer(dialog);
+
+      layerEngine.triggerBack();
+
+      expect(layerEngine.activeElement).toBe(byId('dialogOk'));
+    });
+
+    it('should restore focus when the layer is popped', () => {
+      byId('item2').focus();
+      layerEngine.pushLayer(dialog);
+
+      expect(layerEngine.popLayer()).toBe(dialog);
+      expect(layerEngine.activeElement).toBe(byId('item2'));
+      expect(layerEngine.popLayer()).toBeNull();
+    });
+
+    it('should support nested layers', () => {
+      layerEngine.pushLayer(drawer);
+      expect(layerEngine.activeElement).toBe(byId('drawerItem'));
+
+      layerEngine.pushLayer(dialog);
+      layerEngine.popLayer();
+      expect(layerEngine.activeElement).toBe(byId('drawerItem'));
+
+      // Still trapped in the drawer
+      layerEngine.triggerArrowUp();
+      expect(layerEngine.activeElement).toBe(byId('drawerItem'));
+
+      layerEngine.popLayer();
+      expect(layerEngine.activeElement).toBe(byId('item1'));
+    });
+
+    it('should move focus within the layer when its focused element is removed', async () => {
+      layerEngine.destroy();
+      // A sibling behind the dialog from the same group as dialogOk
+      byId('item2').setAttribute('data-focus-child-of', 'grid');
+      layerEngine = new FocusEngine({ autoInit: false, observe: true });
+      layerEngine.init();
+      jest.advanceTimersByTime(300);
+      layerEngine.pushLayer(dialog);
+
+      byId('dialogOk').remove();
+      await Promise.resolve(); // Deliver the mutation
+
+      expect(layerEngine.activeElement).toBe(byId('dialogCancel'));
+    });
+
+    it('should not restore focus behind the layer', async () => {
+      byId('item2').setAttribute('data-focus-key', 'item2');
+      layerEngine.pushLayer(dialog);
+
+      const restored = layerEngine.restoreState({ active: 'item2', parents: {}, sections: {} }, 0);
+      jest.advanceTimersByTime(0);
+
+      await expect(restored).resolves.toBe(false);
+      expect(layerEngine.activeElement).toBe(byId('dialogOk'));
+    });
+  });
+
+  describe('Scoring strategies', () => {
+    it('should use a built-in strategy by name', () => {
+      // item4 is diagonal to item1: the default heuristic needs cross-axis overlap
+      document.getElementById('item3')?.remove();
+      const edgeEngine = new FocusEngine({ autoInit: false, scoring: 'nearestEdge' });
+      edgeEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+
+      edgeEngine.triggerArrowDown();
+
+      expect(edgeEngine.activeElement?.id).toBe('item4');
+      edgeEngine.destroy();
+    });
+
+    it('should use a custom strategy function', () => {
+      // Prefer the farthest candidate
+      const farthest = jest.fn((current, candidate, direction) =>
+        direction === 'ArrowRight' && candidate.left > current.left ? -candidate.left : null
+      );
+      const customEngine = new FocusEngine({ autoInit: false, scoring: farthest });
+      customEngine.init();
+      jest.advanceTimersByTime(300);
+      document.getElementById('item3')?.focus();
+
+      customEngine.triggerArrowRight();
+
+      expect(farthest).toHaveBeenCalled();
+      expect(customEngine.activeElement?.id).toBe('item2');
+      customEngine.destroy();
+    });
+  });
+
+  describe('Edge behaviour', () => {
+    let edgeEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    function createEdgeEngine(options: FocusEngineOptions) {
+      edgeEngine = new FocusEngine({ autoInit: false, ...options });
+      edgeEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    }
+
+    afterEach(() => {
+      edgeEngine.destroy();
+    });
+
+    it('should stop by default', () => {
+      createEdgeEngine({});
+      byId('item2').focus();
+
+      edgeEngine.triggerArrowRight();
+
+      expect(edgeEngine.activeElement).toBe(byId('item2'));
+    });
+
+    it('should wrap within the same row or column', () => {
+      createEdgeEngine({ edgeBehavior: 'wrap' });
+      byId('item2').focus();
+
+      edgeEngine.triggerArrowRight();
+      expect(edgeEngine.activeElement).toBe(byId('item1'));
+
+      byId('item3').focus();
+      edgeEngine.triggerArrowDown();
+      expect(edgeEngine.activeElement).toBe(byId('item1'));
+    });
+
+    it('should continue in reading order', () => {
+      createEdgeEngine({ edgeBehavior: 'next-row' });
+      byId('item2').focus();
+
+      edgeEngine.triggerArrowRight();
+      expect(edgeEngine.activeElement).toBe(byId('item3'));
+
+      edgeEngine.triggerArrowLeft();
+      expect(edgeEngine.activeElement).toBe(byId('item2'));
+    });
+
+    it('should configure behaviour per direction', () => {
+      createEdgeEngine({ edgeBehavior: { ArrowRight: 'wrap' } });
+
+      edgeEngine.triggerArrowLeft();
+
+      expect(edgeEngine.activeElement).toBe(byId('item1'));
+    });
+
+    it('should prefer the parent group behaviour and wrap among siblings', () => {
+      addParentChildGroup();
+      createEdgeEngine({ edgeBehavior: 'stop', groupEdgeBehavior: { movies: 'wrap' } });
+      byId('childB').focus();
+
+      edgeEngine.triggerArrowRight();
+
+      expect(edgeEngine.activeElement).toBe(byId('childA'));
+    });
+
+    it('should use the section behaviour', () => {
+      document.querySelector('.grid-container')?.classList.add('rail');
+      createEdgeEngine({
+        sections: [{ id: 'rail', selector: '.rail', edgeBehavior: { ArrowLeft: 'wrap' } }],
+      });
+
+      edgeEngine.triggerArrowLeft();
+
+      expect(edgeEngine.activeElement).toBe(byId('item2'));
+    });
+
+    it('should not wrap out of a blocked section leave', () => {
+      document.querySelector('.grid-container')?.classList.add('rail');
+      createEdgeEngine({
+        edgeBehavior: 'wrap',
+        sections: [{ id: 'rail', selector: '.rail', leaveFor: { ArrowLeft: 'block' } }],
+      });
+      const onEdge = jest.fn();
+      edgeEngine.on('edgeReached', onEdge);
+
+      edgeEngine.triggerArrowLeft();
+
+      expect(edgeEngine.activeElement).toBe(byId('item1'));
+      expect(onEdge).toHaveBeenCalledWith({ element: byId('item1'), direction: 'ArrowLeft' });
+    });
+
+    it('should emit edgeReached only when focus stays', () => {
+      createEdgeEngine({ edgeBehavior: { ArrowRight: 'wrap' } });
+      const onEdge = jest.fn();
+      edgeEngine.on('edgeReached', onEdge);
+      byId('item2').focus();
+
+      edgeEngine.triggerArrowRight();
+      expect(edgeEngine.activeElement).toBe(byId('item1'));
+      expect(onEdge).not.toHaveBeenCalled();
+
+      edgeEngine.triggerArrowLeft();
+      expect(onEdge).toHaveBeenCalledTimes(1);
+    });
+
+    it('should call a custom handler', () => {
+      const handler = jest.fn(() => byId('item4'));
+      createEdgeEngine({ edgeBehavior: handler });
+
+      edgeEngine.triggerArrowUp();
+
+      expect(handler).toHaveBeenCalledWith(byId('item1'), 'ArrowUp');
+      expect(edgeEngine.activeElement).toBe(byId('item4'));
+    });
+  });
+
+  describe('Writing flow', () => {
+    let flowEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div dir="rtl">
+          <div id="rtlMenu" class="focusable" tabindex="0" data-focus-parent="series">Series</div>
+          <div id="rtlA" class="focusable" tabindex="0" data-focus-child-of="series">Series A</div>
+          <div id="rtlB" class="focusable" tabindex="0" data-focus-child-of="series">Series B</div>
+        </div>
+        <div style="writing-mode: vertical-rl">
+          <div id="vMenu" class="focusable" tabindex="0" data-focus-parent="radio">Radio</div>
+          <div id="vA" class="focusable" tabindex="0" data-focus-child-of="radio">Radio A</div>
+          <div id="vB" class="focusable" tabindex="0" data-focus-child-of="radio">Radio B</div>
+        </div>
+      `
+      );
+      flowEngine = new FocusEngine({ autoInit: false, parentPosition: 'start' });
+      flowEngine.init();
+      jest.advanceTimersByTime(300);
+    });
+
+    afterEach(() => {
+      flowEngine.destroy();
+    });
+
+    it('should mirror parent and child navigation in right-to-left groups', () => {
+      byId('rtlA').focus();
+
+      flowEngine.navigate('inline-end');
+      expect(flowEngine.activeElement).toBe(byId('rtlB'));
+
+      flowEngine.navigate('inline-start');
+      flowEngine.triggerArrowRight();
+      expect(flowEngine.activeElement).toBe(byId('rtlMenu'));
+
+      // Entering the children goes back to the last visited one, not the nearest
+      byId('rtlB').focus();
+      byId('rtlMenu').focus();
+      flowEngine.triggerArrowLeft();
+      expect(flowEngine.activeElement).toBe(byId('rtlB'));
+    });
+
+    it('should put start parents above their children in vertical writing modes', () => {
+      byId('vB').focus();
+      byId('vMenu').focus();
+
+      flowEngine.triggerArrowDown();
+      expect(flowEngine.activeElement).toBe(byId('vB'));
+
+      flowEngine.triggerArrowUp();
+      flowEngine.triggerArrowUp();
+      expect(flowEngine.activeElement).toBe(byId('vMenu'));
+    });
+
+    it('should follow logical navigation overrides', () => {
+      byId('rtlB').setAttribute('data-focus-inline-end', 'item1');
+      byId('rtlB').focus();
+
+      flowEngine.triggerArrowLeft();
+
+      expect(flowEngine.activeElement).toBe(byId('item1'));
+    });
+
+    it('should use the computed direction of dir="auto" containers', () => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div dir="rtl">
+          <div dir="auto" style="direction: ltr">
+            <div id="autoItem" class="focusable" tabindex="0" data-focus-inline-end="item1"></div>
+          </div>
+        </div>
+      `
+      );
+      flowEngine.updateFocusableElements();
+      byId('autoItem').focus();
+
+      flowEngine.triggerArrowRight();
+
+      expect(flowEngine.activeElement).toBe(byId('item1'));
+    });
+
+    it('should read the flow only for logical moves, once per container', () => {
+      const readFlow = jest.spyOn(
+        flowEngine as unknown as { readWritingFlow: (element: HTMLElement) => WritingFlow },
+        'readWritingFlow'
+      );
+      byId('item1').focus();
+
+      flowEngine.triggerArrowRight();
+      expect(readFlow).not.toHaveBeenCalled();
+
+      flowEngine.navigate('inline-start');
+      flowEngine.navigate('inline-end');
+      expect(flowEngine.activeElement).toBe(byId('item2'));
+      expect(readFlow).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Parent positions', () => {
+    let positionEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    beforeEach(() => {
+      addParentChildGroup();
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div id="tab" class="focusable" tabindex="0" data-focus-parent="tab" data-focus-parent-position="top">Tab</div>
+        <div id="panelA" class="focusable" tabindex="0" data-focus-child-of="tab">Panel A</div>
+        <div id="panelB" class="focusable" tabindex="0" data-focus-child-of="tab">Panel B</div>
+        <div id="homeA" class="focusable" tabindex="0" data-focus-child-of="home">Home A</div>
+        <div id="homeB" class="focusable" tabindex="0" data-focus-child-of="home">Home B</div>
+        <div id="homeTab" class="focusable" tabindex="0" data-focus-parent="home" data-focus-parent-position="bottom">Home</div>
+      `
+      );
+      positionEngine = new FocusEngine({ autoInit: false });
+      positionEngine.init();
+      jest.advanceTimersByTime(300);
+    });
+
+    afterEach(() => {
+      positionEngine.destroy();
+    });
+
+    it('should enter and leave the panel of a tab bar with Down and Up', () => {
+      byId('panelB').focus();
+      byId('tab').focus();
+
+      positionEngine.triggerArrowDown();
+      expect(positionEngine.activeElement).toBe(byId('panelB'));
+
+      positionEngine.triggerArrowUp();
+      expect(positionEngine.activeElement).toBe(byId('tab'));
+    });
+
+    it('should enter the content of a bottom bar with Up and return with Down', () => {
+      byId('homeB').focus();
+      byId('homeTab').focus();
+
+      positionEngine.triggerArrowUp();
+      expect(positionEngine.activeElement).toBe(byId('homeB'));
+
+      positionEngine.triggerArrowDown();
+      expect(positionEngine.activeElement).toBe(byId('homeTab'));
+    });
+
+    it('should keep the default position for parents without the attribute', () => {
+      byId('childB').focus();
+      byId('menu').focus();
+
+      positionEngine.triggerArrowRight();
+      expect(positionEngine.activeElement).toBe(byId('childB'));
+    });
+  });
+
+  describe('Nested hierarchies', () => {
+    let treeEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    beforeEach(() => {
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        `
+        <div id="navSide" class="focusable" tabindex="0" data-focus-parent="side">Browse</div>
+        <div id="navCat" class="focusable" tabindex="0" data-focus-child-of="side" data-focus-parent="cat">Movies</div>
+        <div id="navSub" class="focusable" tabindex="0" data-focus-child-of="cat" data-focus-parent="sub">Drama</div>
+        <div id="navItemA" class="focusable" tabindex="0" data-focus-child-of="sub">Drama A</div>
+        <div id="navItemB" class="focusable" tabindex="0" data-focus-child-of="sub">Drama B</div>
+        <div id="navSub2" class="focusable" tabindex="0" data-focus-child-of="cat" data-focus-parent="sub2">Comedy</div>
+        <div id="navItemC" class="focusable" tabindex="0" data-focus-child-of="sub2">Comedy A</div>
+      `
+      );
+      treeEngine = new FocusEngine({ autoInit: false });
+      treeEngine.init();
+      jest.advanceTimersByTime(300);
+    });
+
+    afterEach(() => {
+      treeEngine.destroy();
+    });
+
+    it('should expose ancestors and children', () => {
+      expect(treeEngine.getAncestors(byId('navItemB'))).toEqual([
+        byId('navSub'),
+        byId('navCat'),
+        byId('navSide'),
+      ]);
+      expect(treeEngine.getAncestors(byId('navSide'))).toEqual([]);
+      expect(treeEngine.getChildren('sub')).toEqual([byId('navItemA'), byId('navItemB')]);
+      expect(treeEngine.getChildren('missing')).toEqual([]);
+    });
+
+    it('should remember the last visited child at every level', () => {
+      byId('navItemC').focus();
+      byId('navSide').focus();
+
+      treeEngine.triggerEnter();
+      expect(treeEngine.activeElement).toBe(byId('navCat'));
+      treeEngine.triggerEnter();
+      expect(treeEngine.activeElement).toBe(byId('navSub2'));
+      treeEngine.triggerEnter();
+      expect(treeEngine.activeElement).toBe(byId('navItemC'));
+    });
+
+    it('should climb one level per back', () => {
+      byId('navItemC').focus();
+
+      expect(treeEngine.triggerBack()).toBe(true);
+      expect(treeEngine.activeElement).toBe(byId('navSub2'));
+      treeEngine.triggerBack();
+      expect(treeEngine.activeElement).toBe(byId('navCat'));
+      treeEngine.triggerBack();
+      expect(treeEngine.activeElement).toBe(byId('navSide'));
+      expect(treeEngine.triggerBack()).toBe(false);
+    });
+
+    it('should climb one level per Back key after moving with the keyboard', () => {
+      treeEngine.destroy();
+      treeEngine = new FocusEngine({ autoInit: false, keyboard: true, backToParentFirst: true });
+      treeEngine.init();
+      jest.advanceTimersByTime(300);
+      byId('navItemA').focus();
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'ArrowRight' }));
+      jest.advanceTimersByTime(16); // Render the move
+      expect(treeEngine.activeElement).toBe(byId('navItemB'));
+
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(treeEngine.activeElement).toBe(byId('navSub'));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(treeEngine.activeElement).toBe(byId('navCat'));
+      jest.advanceTimersByTime(16);
+      document.dispatchEvent(new KeyboardEvent('keydown', { key: 'Escape' }));
+      expect(treeEngine.activeElement).toBe(byId('navSide'));
+    });
+
+    it('should go back to the first visible parent of a group', () => {
+      byId('navSub').insertAdjacentHTML(
+        'beforebegin',
+        '<div id="navSubHidden" class="focusable" tabindex="0" data-focus-child-of="cat" data-focus-parent="sub">Drama</div>'
+      );
+      Object.defineProperty(byId('navSubHidden'), 'offsetParent', { get: () => null });
+      treeEngine.updateFocusableElements();
+      byId('navItemA').focus();
+
+      expect(treeEngine.triggerBack()).toBe(true);
+      expect(treeEngine.activeElement).toBe(byId('navSub'));
+    });
+
+    it('should move to the first visible parent of a group with the arrow keys', () => {
+      byId('navSub').insertAdjacentHTML(
+        'beforebegin',
+        '<div id="navSubHidden" class="focusable" tabindex="0" data-focus-child-of="cat" data-focus-parent="sub">Drama</div>'
+      );
+      Object.defineProperty(byId('navSubHidden'), 'offsetParent', { get: () => null });
+      treeEngine.updateFocusableElements();
+      byId('navItemA').focus();
+
+      treeEngine.triggerArrowLeft();
+
+      expect(treeEngine.activeElement).toBe(byId('navSub'));
+    });
+  });
+
+  describe('Navigation overrides', () => {
+    let overrideEngine: FocusEngine;
+
+    const byId = (id: string) => document.getElementById(id) as HTMLElement;
+
+    beforeEach(() => {
+      document.querySelector('.grid-container')?.classList.add('grid');
+      overrideEngine = new FocusEngine({
+        autoInit: false,
+        sections: [{ id: 'grid', selector: '.grid', enterTo: 'default', defaultElement: '#item4' }],
+      });
+      overrideEngine.init();
+      jest.advanceTimersByTime(300); // Focus item1
+    });
+
+    afterEach(() => {
+      overrideEngine.destroy();
+    });
+
+    it('should follow an element id', () => {
+      byId('item1').setAttribute('data-focus-down', 'item4');
+
+      overrideEngine.triggerArrowDown();
+
+      expect(overrideEngine.activeElement).toBe(byId('item4'));
+    });
+
+    it('should follow a CSS selector', () => {
+      byId('item1').setAttribute('data-focus-right', '.grid-container > :last-child');
+
+      overrideEngine.triggerArrowRight();
+
+      expect(overrideEngine.activeElement).toBe(byId('item4'));
+    });
+
+    it('should enter a section by name', () => {
+      byId('item1').setAttribute('data-focus-left', 'grid');
+
+      overrideEngine.triggerArrowLeft();
+
+      expect(overrideEngine.activeElement).toBe(byId('item4'));
+    });
+
+    it('should block a direction with none', () => {
+      const onEdge = jest.fn();
+      overrideEngine.on('edgeReached', onEdge);
+      byId('item1').setAttribute('data-focus-right', 'none');
+
+      overrideEngine.triggerArrowRight();
+
+      expect(overrideEngine.activeElement).toBe(byId('item1'));
+      expect(onEdge).toHaveBeenCalledWith({ element: byId('item1'), direction: 'ArrowRight' });
+    });
+
+    it('should fall back to spatial navigation when the target is missing', () => {
+      byId('item1').setAttribute('data-focus-right', 'missing-element');
+
+      overrideEngine.triggerArrowRight();
+
+      expect(overrideEngine.activeElement).toBe(byId('item2'));
+    });
+  });
+
+  describe('Scroll management', () => {
+    it('should navigate to off-screen elements and scroll them into view', () => {
+      const container = document.querySelector('.grid-container') as HTMLElement;
+      container.setAttribute('data-focus-scroll', 'padding');
+      Object.defineProperty(container, 'scrollWidth', { value: 400 });
+      Object.defineProperty(container, 'clientWidth', { value: 250 });
+      container.getBoundingClientRect = () =>
+        ({ left: 0, top: 0, right: 250, bottom: 250, width: 250, height: 250 }) as DOMRect;
+      container.insertAdjacentHTML(
+        'beforeend',
+        '<div id="item5" class="focusable" tabindex="0">Item 5</div>'
+      );
+      const focusSpy = jest.spyOn(HTMLElement.prototype, 'focus');
+
+      const scrollEngine = new FocusEngine({ autoInit: false, scroll: { smooth: false } });
+      scrollEngine.init();
+      jest.advanceTimersByTime(300);
+      document.getElementById('item4')?.focus();
+
+      // item5 ends at 340px, outside the 250px wide container
+      scrollEngine.triggerArrowRight();
+
+      expect(scrollEngine.activeElement?.id).toBe('item5');
+      expect(focusSpy).toHaveBeenLastCalledWith({ preventScroll: true });
+      expect(container.scrollLeft).toBe(90);
+      scrollEngine.destroy();
+    });
+  });
+
+  describe('Virtual collections', () => {
+    let virtualEngine: FocusEngine;
+    let rail: HTMLElement;
+
+    const itemRect = (index: number) => mockElementRects[`v${index}` as 'v0'];
+
+    function renderItem(index: number) {
+      rail.insertAdjacentHTML(
+        'beforeend',
+        `<div id="v${index}" class="focusable" tabindex="0" data-focus-index="${index}"></div>`
+      );
+    }
+
+    beforeEach(() => {
+      document.body.innerHTML = '<div id="rail"></div>';
+      rail = document.getElementById('rail') as HTMLElement;
+      renderItem(0);
+      renderItem(1);
+
+      virtualEngine = new FocusEngine({ autoInit: false });
+      virtualEngine.init();
+      jest.advanceTimersByTime(300);
+      document.getElementById('v1')?.focus();
+    });
+
+    afterEach(() => {
+      virtualEngine.destroy();
+    });
+
+    it('should materialize and focus an item that is not rendered', () => {
+      const materialize = jest.fn(renderItem);
+      virtualEngine.registerVirtualCollection(rail, {
+        getItemCount: () => 3,
+        getItemRect: itemRect,
+        materialize,
+      });
+
+      virtualEngine.triggerArrowRight();
+
+      expect(materialize).toHaveBeenCalledWith(2);
+      expect(virtualEngine.activeElement?.id).toBe('v2');
+    });
+
+    it('should wait for items that are rendered asynchronously', async () => {
+      virtualEngine.registerVirtualCollection(rail, {
+        getItemCount: () => 3,
+        getItemRect: itemRect,
+        materialize: (index) => setTimeout(() => renderItem(index), 50),
+      });
+
+      virtualEngine.triggerArrowRight();
+      expect(virtualEngine.activeElement?.id).toBe('v1');
+
+      jest.advanceTimersByTime(50);
+      await Promise.resolve(); // Deliver the mutation
+
+      expect(virtualEngine.activeElement?.id).toBe('v2');
+    });
+
+    it('should prefer rendered items that are closer', () => {
+      const materialize = jest.fn(renderItem);
+      virtualEngine.registerVirtualCollection(rail, {
+        getItemCount: () => 3,
+        getItemRect: itemRect,
+        materialize,
+      });
+      document.getElementById('v0')?.focus();
+
+      virtualEngine.triggerArrowRight();
+
+      expect(materialize).not.toHaveBeenCalled();
+      expect(virtualEngine.activeElement?.id).toBe('v1');
+    });
+
+    it('should enter a collection from outside', () => {
+      rail.innerHTML = '';
+      document.body.insertAdjacentHTML(
+        'beforeend',
+        '<div id="railEntry" class="focusable" tabindex="0"></div>'
+      );
+      virtualEngine.updateFocusableElements();
+      document.getElementById('railEntry')?.focus();
+      const materialize = jest.fn(renderItem);
+      virtualEngine.registerVirtualCollection(rail, {
+        getItemCount: () => 3,
+        getItemRect: itemRect,
+        materialize,
+      });
+
+      virtualEngine.triggerArrowUp();
+
+      expect(materialize).toHaveBeenCalledWith(0);
+      expect(virtualEngine.activeElement?.id).toBe('v0');
+    });
+
+    it('should stop at the last item after unregistering', () => {
+      const unregister = virtualEngine.registerVirtualCollection(rail, {
+        getItemCount: () => 3,
+        getItemRect: itemRect,
+        materialize: renderItem,
+      });
+      unregister();
+
+      virtualEngine.triggerArrowRight();
+
+      expect(virtualEngine.activeElement?.id).toBe('v1');
+    });
+  });
+
   describe('Cleanup', () => {
     it('should clear focus event handlers when destroyed', () => {
       // Mock removeEventListener for elements
@@ -0,0 +1,98 @@
+import { FocusEngine, FocusEngineOptions } from '../index';
+
+// A TV catalog: 20 rows of 30 tiles, 200x120 with 20px gaps
+const ROWS = 20;
+const COLS = 30;
+
+function setupCatalog() {
+  document.body.innerHTML = Array.from(
+    { length: ROWS * COLS },
+    (_, index) => `<div class="focusable" tabindex="0" data-index="${index}"></div>`
+  ).join('');
+}
+
+describe('Benchmark: candidate search with 600 tiles', () => {
+  let rectReads = 0;
+  const originalGetRect = Element.prototype.getBoundingClientRect;
+
+  beforeAll(() => {
+    Element.prototype.getBoundingClientRect = function () {
+      rectReads++;
+      const index = Number((this as HTMLElement).dataset.index);
+      const left = (index % COLS) * 220;
+      const top = Math.floor(index / COLS) * 140;
+      return {
+        top,
+        left,
+        right: left + 200,
+        bottom: top + 120,
+        width: 200,
+        height: 120,
+      } as DOMRect;
+    };
+    Object.defineProperty(HTMLElement.prototype, 'offsetParent', {
+      configurable: true,
+      get: () => document.body,
+    });
+  });
+
+  afterAll(() => {
+    Element.prototype.getBoundingClientRect = originalGetRect;
+  });
+
+  beforeEach(() => {
+    jest.useFakeTimers({ doNotFake: ['performance'] });
+    setupCatalog();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    document.body.innerHTML = '';
+  });
+
+  // Walks right along the first row, then down the last column, and back
+  const run = async (options: FocusEngineOptions) => {
+    const engine = new FocusEngine({ autoInit: false, ...options });
+    engine.init();
+    jest.advanceTimersByTime(300);
+
+    const moves: Array<() => void> = [
+      ...Array(COLS - 1).fill(() => engine.triggerArrowRight()),
+      ...Array(ROWS - 1).fill(() => engine.triggerArrowDown()),
+      ...Array(COLS - 1).fill(() => engine.triggerArrowLeft()),
+      ...Array(ROWS - 1).fill(() => engine.triggerArrowUp()),
+    ];
+    const path: string[] = [];
+    rectReads = 0;
+    const start = performance.now();
+    for (const move of moves) {
+      move();
+      path.push(engine.activeElement?.dataset.index as string);
+      // Let the mutation observers see the focus class change, as between real keypresses
+      await Promise.resolve();
+    }
+    const duration = performance.now() - start;
+
+    engine.destroy();
+    return { reads: rectReads, duration, path, keys: moves.length };
+  };
+
+  it('should reach the same elements with a fraction of the layout reads', async () => {
+    const plain = await run({});
+    const cached = await run({ geometryCache: true });
+
+    expect(cached.path).toEqual(plain.path);
+    expect(cached.path[cached.path.length - 1]).toBe('0');
+    // Without the cache every keypress reads the rect of every tile
+    expect(plain.reads / plain.keys).toBeGreaterThanOrEqual(ROWS * COLS);
+    // With it only the moved-to tile is read again, to check the page did not scroll
+    expect(cached.reads).toBeLessThan(ROWS * COLS + 2 * cached.keys);
+
+    if (process.env.BENCHMARK) {
+      console.log(
+        `${plain.keys} keypresses: ${plain.duration.toFixed(1)} ms, ${plain.reads} rect reads ` +
+          `without cache; ${cached.duration.toFixed(1)} ms, ${cached.reads} rect reads with cache`
+      );
+    }
+  });
+});
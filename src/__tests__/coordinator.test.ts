@@ -0,0 +1,85 @@
+import { FocusCoordinator } from '../coordinator';
+
+function createEngine() {
+  let inputEnabled = true;
+
+  return {
+    setInputEnabled: jest.fn((enabled: boolean) => {
+      inputEnabled = enabled;
+    }),
+    isInputEnabled: () => inputEnabled,
+    takeFocus: jest.fn(),
+  };
+}
+
+describe('FocusCoordinator', () => {
+  let coordinator: FocusCoordinator<ReturnType<typeof createEngine>>;
+
+  beforeEach(() => {
+    coordinator = new FocusCoordinator();
+  });
+
+  it('should give input to the first registered engine only', () => {
+    const main = createEngine();
+    const pip = createEngine();
+
+    coordinator.register(main);
+    coordinator.register(pip);
+
+    expect(coordinator.getOwner()).toBe(main);
+    expect(main.isInputEnabled()).toBe(true);
+    expect(pip.isInputEnabled()).toBe(false);
+  });
+
+  it('should register and hand input to an unknown engine on activate', () => {
+    const main = createEngine();
+    const pip = createEngine();
+    coordinator.register(main);
+
+    coordinator.activate(pip);
+
+    expect(coordinator.getOwner()).toBe(pip);
+    expect(main.isInputEnabled()).toBe(false);
+    expect(pip.isInputEnabled()).toBe(true);
+    expect(pip.takeFocus).toHaveBeenCalled();
+  });
+
+  it('should hand input to the most recent engine when the owner unregisters', () => {
+    const main = createEngine();
+    const pip = createEngine();
+    const menu = createEngine();
+    const unregisterMain = coordinator.register(main);
+    coordinator.register(pip);
+    coordinator.register(menu);
+
+    unregisterMain();
+
+    expect(coordinator.getOwner()).toBe(menu);
+    expect(menu.isInputEnabled()).toBe(true);
+    expect(menu.takeFocus).toHaveBeenCalled();
+    expect(pip.isInputEnabled()).toBe(false);
+  });
+
+  it('should leave the input state of an unregistered engine unchanged', () => {
+    const main = createEngine();
+    const pip = createEngine();
+    coordinator.register(main);
+    coordinator.register(pip);
+
+    coordinator.unregister(pip);
+    coordinator.unregister(pip);
+
+    expect(pip.isInputEnabled()).toBe(false);
+    expect(coordinator.getOwner()).toBe(main);
+    expect(main.isInputEnabled()).toBe(true);
+  });
+
+  it('should have no owner once every engine is unregistered', () => {
+    const main = createEngine();
+    coordinator.register(main);
+
+    coordinator.unregister(main);
+
+    expect(coordinator.getOwner()).toBeNull();
+  });
+});
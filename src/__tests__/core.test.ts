@@ -0,0 +1,330 @@
+import {
+  defaultStrategy,
+  findBestCandidate,
+  FocusTree,
+  isAtEdge,
+  isElementAtBottomEdge,
+  isElementAtTopEdge,
+  NavigationCore,
+  NavigationNode,
+  pickChild,
+  Rect,
+  resolveDirection,
+  resolveEdgeBehavior,
+  resolveParentPosition,
+  resolveSectionEntry,
+  shouldEnterChildren,
+  shouldReturnToParent,
+} from '../core';
+
+function rect(left: number, top: number, width = 100, height = 100): Rect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+function node(id: string, left: number, top: number, extra: Partial<NavigationNode> = {}) {
+  return { id, rect: rect(left, top), ...extra };
+}
+
+describe('Navigation core functions', () => {
+  it('should pick the best scored candidate, the first one on ties', () => {
+    const candidates = [
+      { item: 'far', rect: rect(240, 0) },
+      { item: 'near', rect: rect(120, 0) },
+      { item: 'twin', rect: rect(120, 0) },
+    ];
+
+    expect(findBestCandidate(rect(0, 0), candidates, 'ArrowRight', defaultStrategy)).toBe('near');
+    expect(findBestCandidate(rect(0, 0), candidates, 'ArrowLeft', defaultStrategy)).toBeNull();
+  });
+
+  it('should resolve section entries by rule', () => {
+    const members = ['a', 'b', 'c'];
+
+    expect(resolveSectionEntry({ id: 's', enterTo: 'first' }, members, { fallback: 'b' })).toBe(
+      'a'
+    );
+    expect(resolveSectionEntry({ id: 's', enterTo: 'last-focused' }, members, {})).toBe('a');
+    expect(
+      resolveSectionEntry({ id: 's', enterTo: 'last-focused' }, members, { lastFocused: 'c' })
+    ).toBe('c');
+    expect(
+      resolveSectionEntry({ id: 's', enterTo: 'default' }, members, {
+        isDefault: (item) => item === 'b',
+      })
+    ).toBe('b');
+    expect(resolveSectionEntry({ id: 's' }, members, { fallback: 'c' })).toBe('c');
+    expect(resolveSectionEntry({ id: 's' }, [], { fallback: 'c' })).toBeNull();
+  });
+
+  it('should take the first configured edge behaviour', () => {
+    expect(resolveEdgeBehavior('ArrowLeft', [undefined, { ArrowLeft: 'wrap' }, 'next-row'])).toBe(
+      'wrap'
+    );
+    expect(resolveEdgeBehavior('ArrowUp', [undefined, { ArrowLeft: 'wrap' }, 'next-row'])).toBe(
+      'next-row'
+    );
+    expect(resolveEdgeBehavior('ArrowUp', [])).toBe('stop');
+  });
+
+  it('should detect the edge of a sibling row', () => {
+    const siblings = [rect(120, 0), rect(-120, 200)];
+
+    expect(isAtEdge(rect(0, 0), siblings, 'left')).toBe(true);
+    expect(isAtEdge(rect(0, 0), siblings, 'right')).toBe(false);
+  });
+
+  it('should decide parent and child moves by position', () => {
+    const parent = rect(0, 0);
+    const child = rect(120, 0);
+
+    expect(shouldEnterChildren(parent, child, 'ArrowRight', 'left')).toBe(true);
+    expect(shouldEnterChildren(parent, child, 'ArrowLeft', 'left')).toBe(false);
+    expect(shouldEnterChildren(parent, null, 'ArrowRight', 'left')).toBe(false);
+    expect(shouldReturnToParent(child, [], parent, 'ArrowLeft', 'left')).toBe(true);
+    expect(shouldReturnToParent(child, [], parent, 'ArrowLeft', 'right')).toBe(false);
+    expect(shouldReturnToParent(child, [], null, 'ArrowLeft', 'left')).toBe(false);
+  });
+
+  it('should resolve logical directions and positions in each writing flow', () => {
+    const rtl = { direction: 'rtl', writingMode: 'horizontal-tb' } as const;
+    const vertical = { direction: 'ltr', writingMode: 'vertical-rl' } as const;
+
+    expect(resolveDirection('inline-end')).toBe('ArrowRight');
+    expect(resolveDirection('inline-end', rtl)).toBe('ArrowLeft');
+    expect(resolveDirection('block-end', rtl)).toBe('ArrowDown');
+    expect(resolveDirection('inline-end', vertical)).toBe('ArrowDown');
+    expect(resolveDirection('block-end', vertical)).toBe('ArrowLeft');
+    expect(resolveDirection('ArrowUp', rtl)).toBe('ArrowUp');
+    expect(resolveParentPosition('start', rtl)).toBe('right');
+    expect(resolveParentPosition('end', vertical)).toBe('bottom');
+    expect(resolveParentPosition('left', rtl)).toBe('left');
+  });
+
+  it('should resolve logical edge behaviour keys in the flow', () => {
+    const rtl = { direction: 'rtl', writingMode: 'horizontal-tb' } as const;
+
+    expect(resolveEdgeBehavior('ArrowLeft', [{ 'inline-end': 'wrap' }], rtl)).toBe('wrap');
+    expect(resolveEdgeBehavior('ArrowRight', [{ 'inline-end': 'wrap' }], rtl)).toBe('stop');
+    expect(
+      resolveEdgeBehavior('ArrowLeft', [{ ArrowLeft: 'stop', 'inline-end': 'wrap' }], rtl)
+    ).toBe('stop');
+  });
+
+  it('should read a lazy flow only for configs with logical keys', () => {
+    const flow = jest.fn(() => ({ direction: 'rtl', writingMode: 'horizontal-tb' }) as const);
+
+    expect(resolveEdgeBehavior('ArrowLeft', ['wrap', { ArrowRight: 'wrap' }], flow)).toBe('wrap');
+    expect(resolveEdgeBehavior('ArrowLeft', [{ ArrowRight: 'wrap' }], flow)).toBe('stop');
+    expect(flow).not.toHaveBeenCalled();
+
+    expect(resolveEdgeBehavior('ArrowLeft', [{ 'inline-end': 'wrap' }], flow)).toBe('wrap');
+    expect(flow).toHaveBeenCalledTimes(1);
+  });
+
+  it('should decide parent and child moves for parents above the children', () => {
+    const parent = rect(0, 0);
+    const child = rect(0, 120);
+
+    expect(isAtEdge(child, [rect(120, 120), rect(0, 240)], 'top')).toBe(true);
+    expect(isAtEdge(rect(0, 240), [child], 'top')).toBe(false);
+    expect(shouldEnterChildren(parent, child, 'ArrowDown', 'top')).toBe(true);
+    expect(shouldReturnToParent(child, [], parent, 'ArrowUp', 'top')).toBe(true);
+    expect(shouldReturnToParent(child, [], parent, 'ArrowUp', 'bottom')).toBe(false);
+  });
+
+  it('should detect the top and bottom edges of a sibling column', () => {
+    const siblings = [rect(0, 120), rect(120, -120)];
+
+    expect(isElementAtTopEdge(rect(0, 0), siblings)).toBe(true);
+    expect(isElementAtBottomEdge(rect(0, 0), siblings)).toBe(false);
+    expect(isElementAtBottomEdge(rect(0, 120), [rect(0, 0)])).toBe(true);
+  });
+
+  it('should prefer the last visited child', () => {
+    expect(pickChild(['a', 'b'], 'b')).toBe('b');
+    expect(pickChild(['a', 'b'], 'gone')).toBe('a');
+    expect(pickChild([])).toBeUndefined();
+  });
+
+  it('should resolve a group to its first accepted parent', () => {
+    type Item = { id: string; parent?: string; childOf?: string; hidden?: boolean };
+    const items: Item[] = [
+      { id: 'side', parent: 'menu' },
+      { id: 'hidden', parent: 'genres', childOf: 'menu', hidden: true },
+      { id: 'movies', parent: 'genres', childOf: 'menu' },
+      { id: 'drama', childOf: 'genres' },
+    ];
+    const tree = new FocusTree(
+      items,
+      (item) => item.parent,
+      (item) => item.childOf
+    );
+    const visible = (item: Item) => !item.hidden;
+
+    expect(tree.getParent('genres')?.id).toBe('hidden');
+    expect(tree.getParent('genres', visible)?.id).toBe('movies');
+    expect(tree.getAncestors(items[3], visible).map((item) => item.id)).toEqual(['movies', 'side']);
+    expect(tree.getAncestors(items[3], (item) => item.id === 'drama')).toEqual([]);
+  });
+});
+
+describe('NavigationCore', () => {
+  it('should move between nodes spatially', () => {
+    const core = new NavigationCore();
+    core.setNodes([node('a', 0, 0), node('b', 120, 0), node('c', 120, 120)]);
+
+    expect(core.focus('a')?.id).toBe('a');
+    expect(core.move('ArrowRight')?.id).toBe('b');
+    expect(core.move('ArrowRight')).toBeNull();
+    expect(core.getFocused()?.id).toBe('b');
+    expect(core.move('ArrowDown')?.id).toBe('c');
+  });
+
+  it('should drop focus when its node is removed', () => {
+    const core = new NavigationCore();
+    core.setNodes([node('a', 0, 0)]);
+    core.focus('a');
+    core.setNodes([node('b', 0, 0)]);
+
+    expect(core.getFocused()).toBeNull();
+    expect(core.focus('missing')).toBeNull();
+  });
+
+  it('should enter children, remember the last one and go back', () => {
+    const core = new NavigationCore();
+    core.setNodes([
+      node('menu', 0, 0, { parent: 'group' }),
+      node('first', 120, 0, { childOf: 'group' }),
+      node('second', 240, 0, { childOf: 'group' }),
+    ]);
+    core.focus('menu');
+
+    expect(core.move('ArrowRight')?.id).toBe('first');
+    expect(core.move('ArrowRight')?.id).toBe('second');
+    expect(core.back()?.id).toBe('menu');
+    expect(core.enter()?.id).toBe('second');
+    expect(core.move('ArrowLeft')?.id).toBe('first');
+    expect(core.move('ArrowLeft')?.id).toBe('menu');
+    expect(core.back()).toBeNull();
+  });
+
+  it('should follow the writing flow for logical moves and positions', () => {
+    const core = new NavigationCore({
+      parentPosition: 'start',
+      flow: { direction: 'rtl', writingMode: 'horizontal-tb' },
+    });
+    core.setNodes([
+      node('menu', 240, 0, { parent: 'group' }),
+      node('first', 120, 0, { childOf: 'group' }),
+      node('second', 0, 0, { childOf: 'group' }),
+    ]);
+    core.focus('menu');
+
+    expect(core.move('ArrowLeft')?.id).toBe('first');
+    expect(core.move('inline-end')?.id).toBe('second');
+    expect(core.move('inline-start')?.id).toBe('first');
+    expect(core.move('ArrowRight')?.id).toBe('menu');
+  });
+
+  it('should let each parent set its own position', () => {
+    const core = new NavigationCore({ parentPosition: 'left' });
+    core.setNodes([
+      node('tab', 0, 0, { parent: 'tabs', parentPosition: 'top' }),
+      node('panel-1', 0, 120, { childOf: 'tabs' }),
+      node('panel-2', 120, 120, { childOf: 'tabs' }),
+    ]);
+    core.focus('panel-2');
+    core.focus('tab');
+
+    expect(core.move('ArrowDown')?.id).toBe('panel-2');
+    expect(core.move('ArrowUp')?.id).toBe('tab');
+  });
+
+  it('should remember every level of nested groups and go back one level at a time', () => {
+    const core = new NavigationCore();
+    core.setNodes([
+      node('side', 0, 0, { parent: 'categories' }),
+      node('movies', 120, 0, { childOf: 'categories', parent: 'genres' }),
+      node('drama', 240, 0, { childOf: 'genres', parent: 'drama-items' }),
+      node('comedy', 240, 120, { childOf: 'genres', parent: 'comedy-items' }),
+      node('comedy-1', 360, 120, { childOf: 'comedy-items' }),
+    ]);
+
+    expect(core.getAncestors('comedy-1').map((item) => item.id)).toEqual([
+      'comedy',
+      'movies',
+      'side',
+    ]);
+    expect(core.getChildren('genres').map((item) => item.id)).toEqual(['drama', 'comedy']);
+
+    core.focus('comedy-1');
+    core.focus('side');
+    expect(core.enter()?.id).toBe('movies');
+    expect(core.enter()?.id).toBe('comedy');
+    expect(core.enter()?.id).toBe('comedy-1');
+    expect(core.back()?.id).toBe('comedy');
+    expect(core.back()?.id).toBe('movies');
+    expect(core.back()?.id).toBe('side');
+    expect(core.back()).toBeNull();
+  });
+
+  it('should stop at cycles in the hierarchy', () => {
+    const core = new NavigationCore();
+    core.setNodes([
+      node('a', 0, 0, { parent: 'x', childOf: 'y' }),
+      node('b', 120, 0, { parent: 'y', childOf: 'x' }),
+    ]);
+
+    expect(core.getAncestors('a').map((item) => item.id)).toEqual(['b']);
+  });
+
+  it('should apply section rules', () => {
+    const core = new NavigationCore({
+      sections: [
+        { id: 'nav', leaveFor: { ArrowUp: 'block' } },
+        { id: 'content', enterTo: 'default', defaultNode: 'c2' },
+      ],
+    });
+    core.setNodes([
+      node('top', 0, 0),
+      node('n1', 0, 120, { section: 'nav' }),
+      node('c1', 120, 120, { section: 'content' }),
+      node('c2', 240, 120, { section: 'content' }),
+    ]);
+    core.focus('n1');
+
+    expect(core.move('ArrowUp')).toBeNull();
+    expect(core.move('ArrowRight')?.id).toBe('c2');
+  });
+
+  it('should apply edge behaviour at the edges', () => {
+    const core = new NavigationCore({ edgeBehavior: { ArrowRight: 'wrap' } });
+    core.setNodes([node('a', 0, 0), node('b', 120, 0), node('c', 240, 0)]);
+    core.focus('c');
+
+    expect(core.move('ArrowRight')?.id).toBe('a');
+    expect(core.move('ArrowLeft')).toBeNull();
+  });
+
+  it('should not apply edge behaviour when a section blocks leaving', () => {
+    const core = new NavigationCore({
+      edgeBehavior: 'wrap',
+      sections: [{ id: 'rail', leaveFor: { ArrowRight: 'block' } }],
+    });
+    core.setNodes([node('a', 0, 0, { section: 'rail' }), node('b', 120, 0, { section: 'rail' })]);
+    core.focus('b');
+
+    expect(core.move('ArrowRight')).toBeNull();
+    expect(core.move('ArrowLeft')?.id).toBe('a');
+  });
+
+  it('should call custom edge handlers with the node', () => {
+    const handler = jest.fn((current: NavigationNode) => (current.id === 'a' ? null : undefined));
+    const core = new NavigationCore({ edgeBehavior: handler });
+    core.setNodes([node('a', 0, 0)]);
+    core.focus('a');
+
+    expect(core.move('ArrowUp')).toBeNull();
+    expect(handler).toHaveBeenCalledWith(expect.objectContaining({ id: 'a' }), 'ArrowUp');
+  });
+});
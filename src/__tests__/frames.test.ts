@@ -0,0 +1,36 @@
+import { findRectTarget, isFrameMessage, toPlainRect } from '../frames';
+import { defaultStrategy, Rect, strictStrategy } from '../strategies';
+
+function rect(left: number, top: number, width = 100, height = 100): Rect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+describe('Frame hand-off', () => {
+  it('should recognize protocol messages only', () => {
+    expect(isFrameMessage({ type: 'focus-engine:enter', direction: null, rect: null })).toBe(true);
+    expect(isFrameMessage({ type: 'focus-engine:exit' })).toBe(true);
+    expect(isFrameMessage({ type: 'other' })).toBe(false);
+    expect(isFrameMessage(null)).toBe(false);
+    expect(isFrameMessage('focus-engine:enter')).toBe(false);
+  });
+
+  it('should copy and shift rects', () => {
+    expect(toPlainRect(rect(120, 0), -100, 50)).toEqual(rect(20, 50));
+  });
+
+  it('should pick the best candidate with the strategy', () => {
+    const candidates = [
+      { item: 'far', rect: rect(360, 0) },
+      { item: 'near', rect: rect(120, 0) },
+    ];
+
+    expect(findRectTarget(rect(0, 0), candidates, 'ArrowRight', defaultStrategy)).toBe('near');
+    expect(findRectTarget(rect(0, 0), candidates, 'ArrowLeft', defaultStrategy)).toBeNull();
+  });
+
+  it('should fall back to the nearest edge when the strategy rejects every candidate', () => {
+    const candidates = [{ item: 'offset', rect: rect(120, 300) }];
+
+    expect(findRectTarget(rect(0, 0), candidates, 'ArrowRight', strictStrategy)).toBe('offset');
+  });
+});
@@ -0,0 +1,176 @@
+import { GamepadAdapter } from '../gamepad';
+import { InputAction } from '../keymaps';
+
+interface PadState {
+  buttons: boolean[];
+  axes: number[];
+}
+
+const pad: PadState = { buttons: [], axes: [0, 0, 0, 0] };
+let padConnected = true;
+
+function press(index: number, pressed = true) {
+  pad.buttons[index] = pressed;
+}
+
+function dispatchGamepadEvent(type: 'gamepadconnected' | 'gamepaddisconnected') {
+  padConnected = type === 'gamepadconnected';
+  window.dispatchEvent(Object.assign(new Event(type), { gamepad: { index: 0 } }));
+}
+
+describe('GamepadAdapter', () => {
+  let actions: InputAction[];
+  let adapter: GamepadAdapter;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    actions = [];
+    pad.buttons = new Array(17).fill(false);
+    pad.axes = [0, 0, 0, 0];
+    padConnected = true;
+
+    Object.defineProperty(navigator, 'getGamepads', {
+      configurable: true,
+      value: () => [
+        padConnected && {
+          index: 0,
+          connected: true,
+          buttons: pad.buttons.map((pressed) => ({ pressed, value: pressed ? 1 : 0 })),
+          axes: pad.axes,
+        },
+        null,
+      ],
+    });
+  });
+
+  afterEach(() => {
+    adapter.stop();
+    delete (navigator as { getGamepads?: unknown }).getGamepads;
+    jest.useRealTimers();
+  });
+
+  it('should map the D-pad and face buttons with the standard mapping', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action));
+    adapter.start();
+
+    press(15);
+    jest.advanceTimersByTime(16);
+    press(15, false);
+    press(0);
+    jest.advanceTimersByTime(16);
+    press(0, false);
+    press(1);
+    jest.advanceTimersByTime(16);
+
+    expect(actions).toEqual(['ArrowRight', 'Enter', 'Back']);
+  });
+
+  it('should ignore stick movement inside the deadzone', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action), { deadzone: 0.5 });
+    adapter.start();
+
+    pad.axes = [0.3, 0.2, 0, 0];
+    jest.advanceTimersByTime(16);
+    expect(actions).toEqual([]);
+
+    pad.axes = [0.2, -0.9, 0, 0];
+    jest.advanceTimersByTime(16);
+    expect(actions).toEqual(['ArrowUp']);
+  });
+
+  it('should repeat held directions with acceleration', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action), {
+      pollInterval: 10,
+      repeatDelay: 300,
+      repeatInterval: 100,
+      acceleration: 0.5,
+      minRepeatInterval: 40,
+    });
+    adapter.start();
+
+    press(13);
+    jest.advanceTimersByTime(10); // Press at 10ms
+    expect(actions).toHaveLength(1);
+
+    jest.advanceTimersByTime(300); // First repeat at 310ms
+    expect(actions).toHaveLength(2);
+
+    jest.advanceTimersByTime(100); // Second repeat at 410ms, next interval is 50ms
+    expect(actions).toHaveLength(3);
+
+    jest.advanceTimersByTime(50); // Third repeat at 460ms, interval is clamped to 40ms
+    expect(actions).toHaveLength(4);
+
+    jest.advanceTimersByTime(40);
+    expect(actions).toHaveLength(5);
+    expect(actions.every((action) => action === 'ArrowDown')).toBe(true);
+  });
+
+  it('should not repeat Enter and Back', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action));
+    adapter.start();
+
+    press(0);
+    jest.advanceTimersByTime(2000);
+
+    expect(actions).toEqual(['Enter']);
+  });
+
+  it('should use a custom mapping', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action), {
+      mapping: { 2: 'Enter', 3: 'Back' },
+    });
+    adapter.start();
+
+    press(0);
+    press(3);
+    jest.advanceTimersByTime(16);
+
+    expect(actions).toEqual(['Back']);
+  });
+
+  it('should stop polling', () => {
+    adapter = new GamepadAdapter((action) => actions.push(action));
+    adapter.start();
+    adapter.stop();
+
+    press(12);
+    jest.advanceTimersByTime(100);
+
+    expect(actions).toEqual([]);
+  });
+
+  it('should poll only while a gamepad is connected', () => {
+    padConnected = false;
+    adapter = new GamepadAdapter((action) => actions.push(action));
+    adapter.start();
+
+    press(12);
+    jest.advanceTimersByTime(100);
+    expect(actions).toEqual([]);
+
+    dispatchGamepadEvent('gamepadconnected');
+    jest.advanceTimersByTime(16);
+    expect(actions).toEqual(['ArrowUp']);
+
+    dispatchGamepadEvent('gamepaddisconnected');
+    press(12, false);
+    jest.advanceTimersByTime(100);
+    press(12);
+    jest.advanceTimersByTime(100);
+    expect(actions).toEqual(['ArrowUp']);
+  });
+
+  it('should poll on animation frames by default', () => {
+    const requestFrame = jest.spyOn(window, 'requestAnimationFrame');
+    adapter = new GamepadAdapter((action) => actions.push(action));
+    adapter.start();
+
+    press(15);
+    jest.advanceTimersByTime(16);
+
+    expect(requestFrame).toHaveBeenCalled();
+    expect(actions).toEqual(['ArrowRight']);
+    requestFrame.mockRestore();
+  });
+});
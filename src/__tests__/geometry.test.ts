@@ -0,0 +1,245 @@
+import { GeometryCache } from '../geometry';
+import { SpatialIndex } from '../spatial';
+import { Direction } from '../flow';
+import { Rect, SCORING_STRATEGIES, getScoreBound } from '../strategies';
+
+function rect(left: number, top: number, width = 100, height = 100): Rect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+// Deterministic pseudo-random numbers for irregular layouts
+function random(seed: number): () => number {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+}
+
+describe('Spatial index', () => {
+  const next = random(42);
+  const items = Array.from({ length: 150 }, (_, index) => ({
+    item: index,
+    rect: rect(
+      Math.floor(next() * 2000) - 200,
+      Math.floor(next() * 1500) - 200,
+      40 + Math.floor(next() * 300),
+      40 + Math.floor(next() * 200)
+    ),
+  }));
+  const directions: Direction[] = ['ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight'];
+
+  it('should find the same candidate as a linear scan for every built-in strategy', () => {
+    const index = new SpatialIndex(items, 150);
+
+    Object.values(SCORING_STRATEGIES).forEach((strategy) => {
+      const bound = getScoreBound(strategy) as number;
+
+      items.forEach((current) => {
+        directions.forEach((direction) => {
+          let expected: number | null = null;
+          let bestScore = Infinity;
+          items.forEach(({ item, rect: candidateRect }) => {
+            if (item === current.item) return;
+            const score = strategy(current.rect, candidateRect, direction);
+            if (score !== null && score < bestScore) {
+              bestScore = score;
+              expected = item;
+            }
+          });
+
+          const found = index.findBest(
+            current.rect,
+            direction,
+            ({ item, rect: candidateRect }) =>
+              item === current.item ? null : strategy(current.rect, candidateRect, direction),
+            bound
+          );
+          expect(found).toBe(expected);
+        });
+      });
+    });
+  });
+
+  it('should score only nearby candidates', () => {
+    const row = Array.from({ length: 50 }, (_, index) => ({
+      item: index,
+      rect: rect(index * 120, 0),
+    }));
+    const index = new SpatialIndex(row);
+    const score = jest.fn(({ rect: candidateRect }) =>
+      SCORING_STRATEGIES.default(row[10].rect, candidateRect, 'ArrowRight')
+    );
+
+    expect(index.findBest(row[10].rect, 'ArrowRight', score, 0.8)).toBe(11);
+    expect(score.mock.calls.length).toBeLessThan(10);
+  });
+
+  it('should move and remove items', () => {
+    const index = new SpatialIndex([
+      { item: 'a', rect: rect(0, 0) },
+      { item: 'b', rect: rect(120, 0) },
+    ]);
+    // Scores candidates right of x = 100 by their distance
+    const beyond = ({ rect: candidateRect }: { rect: Rect }) =>
+      candidateRect.left >= 100 ? candidateRect.left : null;
+
+    index.update('b', rect(240, 0), 1);
+    index.update('a', rect(120, 0), 0);
+    expect(index.findBest(rect(0, 0), 'ArrowRight', beyond, 1)).toBe('a');
+
+    index.remove('a');
+    expect(index.findBest(rect(0, 0), 'ArrowRight', beyond, 1)).toBe('b');
+  });
+
+  it('should return null for an empty index', () => {
+    expect(new SpatialIndex([]).findBest(rect(0, 0), 'ArrowDown', () => 0, 1)).toBeNull();
+  });
+});
+
+describe('Geometry cache', () => {
+  let element: HTMLElement;
+  let readRect: jest.SpyInstance;
+
+  beforeEach(() => {
+    document.body.innerHTML = '<div id="container"><div id="tile"></div></div>';
+    element = document.getElementById('tile') as HTMLElement;
+    readRect = jest.spyOn(element, 'getBoundingClientRect');
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should read each rect once until invalidated', () => {
+    const cache = new GeometryCache();
+
+    cache.getRect(element);
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(1);
+
+    cache.invalidate();
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(2);
+  });
+
+  it('should invalidate on scroll and resize events', () => {
+    const cache = new GeometryCache();
+    cache.connect(document.body);
+    cache.getRect(element);
+
+    document.getElementById('container')?.dispatchEvent(new Event('scroll'));
+    cache.getRect(element);
+    window.dispatchEvent(new Event('resize'));
+    cache.getRect(element);
+
+    expect(readRect).toHaveBeenCalledTimes(3);
+
+    cache.disconnect();
+    window.dispatchEvent(new Event('resize'));
+    cache.getRect(element);
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(4);
+  });
+
+  it('should forget only a tracked element whose attributes change', async () => {
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    const readOther = jest.spyOn(other, 'getBoundingClientRect');
+    const cache = new GeometryCache();
+    cache.track([element, other]);
+    cache.connect(document.body);
+    cache.getRect(element);
+    cache.getRect(other);
+
+    element.classList.add('focused');
+    await Promise.resolve();
+    cache.getRect(element);
+    cache.getRect(other);
+    expect(readRect).toHaveBeenCalledTimes(2);
+    expect(readOther).toHaveBeenCalledTimes(1);
+
+    document.getElementById('container')?.setAttribute('style', 'transform: translateX(-100px)');
+    await Promise.resolve();
+    cache.getRect(other);
+    expect(readOther).toHaveBeenCalledTimes(2);
+    cache.disconnect();
+  });
+
+  it('should ignore toggles of ignored classes', async () => {
+    const cache = new GeometryCache({ ignoredClasses: ['focused'] });
+    cache.track([element]);
+    cache.connect(document.body);
+    cache.getRect(element);
+
+    element.classList.add('focused');
+    await Promise.resolve();
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(1);
+
+    element.classList.add('wide');
+    await Promise.resolve();
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(2);
+    cache.disconnect();
+  });
+
+  it('should forget only the rects inside a scrolled container', () => {
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    const readOther = jest.spyOn(other, 'getBoundingClientRect');
+    const cache = new GeometryCache();
+    cache.connect(document.body);
+    cache.getRect(element);
+    cache.getRect(other);
+
+    document.getElementById('container')?.dispatchEvent(new Event('scroll'));
+    cache.getRect(element);
+    cache.getRect(other);
+    expect(readRect).toHaveBeenCalledTimes(2);
+    expect(readOther).toHaveBeenCalledTimes(1);
+
+    document.dispatchEvent(new Event('scroll'));
+    cache.getRect(other);
+    expect(readOther).toHaveBeenCalledTimes(2);
+    cache.disconnect();
+  });
+
+  it('should move a changed element in the index instead of rebuilding it', async () => {
+    const other = document.createElement('div');
+    document.body.appendChild(other);
+    const readOther = jest.spyOn(other, 'getBoundingClientRect');
+    readRect.mockReturnValue(rect(0, 0) as DOMRect);
+    readOther.mockReturnValue(rect(120, 0) as DOMRect);
+    Object.defineProperty(element, 'offsetParent', { get: () => document.body });
+    Object.defineProperty(other, 'offsetParent', { get: () => document.body });
+    const elements = [element, other];
+    const cache = new GeometryCache();
+    cache.track(elements);
+    cache.connect(document.body);
+    const index = cache.getIndex(() => elements);
+
+    readRect.mockReturnValue(rect(240, 0) as DOMRect);
+    element.setAttribute('data-moved', '');
+    await Promise.resolve();
+
+    expect(cache.getIndex(() => elements)).toBe(index);
+    expect(index.findBest(rect(120, 0), 'ArrowRight', () => 0, 1)).toBe(element);
+    expect(readOther).toHaveBeenCalledTimes(1);
+    cache.disconnect();
+  });
+
+  it('should invalidate when a verified element has moved', () => {
+    const cache = new GeometryCache();
+    readRect.mockReturnValue(rect(0, 0) as DOMRect);
+    cache.getRect(element);
+
+    cache.verify(element);
+    cache.getRect(element);
+    expect(readRect).toHaveBeenCalledTimes(2);
+
+    readRect.mockReturnValue(rect(0, -300) as DOMRect);
+    cache.verify(element);
+    expect(cache.getRect(element).top).toBe(-300);
+  });
+});
@@ -0,0 +1,45 @@
+import { buildGridLayout, findGridPosition, findGridTarget } from '../grid';
+import { Rect } from '../strategies';
+
+function rect(left: number, top: number, width = 100, height = 100): Rect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+describe('Grid layout', () => {
+  // Two full rows in shuffled order and a short, slightly offset last row
+  const items = [
+    { item: 'b', rect: rect(120, 0) },
+    { item: 'a', rect: rect(0, 0) },
+    { item: 'd', rect: rect(0, 120) },
+    { item: 'c', rect: rect(240, 0) },
+    { item: 'f', rect: rect(240, 120) },
+    { item: 'e', rect: rect(120, 120) },
+    { item: 'g', rect: rect(60, 250) },
+  ];
+
+  it('should arrange items into rows sorted by position', () => {
+    expect(buildGridLayout(items)).toEqual([['a', 'b', 'c'], ['d', 'e', 'f'], ['g']]);
+  });
+
+  it('should keep items with a small vertical offset in the same row', () => {
+    const layout = buildGridLayout([
+      { item: 'a', rect: rect(0, 0) },
+      { item: 'b', rect: rect(120, 30) },
+    ]);
+
+    expect(layout).toEqual([['a', 'b']]);
+  });
+
+  it('should find positions and neighbours by index', () => {
+    const layout = buildGridLayout(items);
+    const position = findGridPosition(layout, 'f');
+
+    expect(position).toEqual({ row: 1, col: 2 });
+    expect(findGridTarget(layout, { row: 1, col: 2 }, 'ArrowUp')).toBe('c');
+    expect(findGridTarget(layout, { row: 1, col: 2 }, 'ArrowDown')).toBe('g');
+    expect(findGridTarget(layout, { row: 1, col: 2 }, 'ArrowLeft')).toBe('e');
+    expect(findGridTarget(layout, { row: 1, col: 2 }, 'ArrowRight')).toBeNull();
+    expect(findGridTarget(layout, { row: 0, col: 0 }, 'ArrowUp')).toBeNull();
+    expect(findGridPosition(layout, 'z')).toBeNull();
+  });
+});
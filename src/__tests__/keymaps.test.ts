@@ -0,0 +1,33 @@
+import { DEFAULT_KEY_MAP, KEY_MAPS, mergeKeyMaps, resolveKeyAction } from '../keymaps';
+
+describe('Key maps', () => {
+  it('should resolve actions by key name', () => {
+    const event = new KeyboardEvent('keydown', { key: 'ArrowLeft' });
+
+    expect(resolveKeyAction(event, DEFAULT_KEY_MAP)).toBe('ArrowLeft');
+  });
+
+  it('should resolve platform back keys by key code', () => {
+    expect(resolveKeyAction(new KeyboardEvent('keydown', { keyCode: 10009 }), KEY_MAPS.tizen)).toBe(
+      'Back'
+    );
+    expect(resolveKeyAction(new KeyboardEvent('keydown', { keyCode: 461 }), KEY_MAPS.webos)).toBe(
+      'Back'
+    );
+    expect(resolveKeyAction(new KeyboardEvent('keydown', { keyCode: 461 }), KEY_MAPS.tizen)).toBe(
+      null
+    );
+  });
+
+  it('should return null for unmapped keys', () => {
+    const event = new KeyboardEvent('keydown', { key: 'a', keyCode: 65 });
+
+    expect(resolveKeyAction(event, DEFAULT_KEY_MAP)).toBeNull();
+  });
+
+  it('should merge key maps without duplicates', () => {
+    const merged = mergeKeyMaps({ Back: ['Escape', 27] }, { Back: [27, 'Backspace'], Enter: [13] });
+
+    expect(merged).toEqual({ Back: ['Escape', 27, 'Backspace'], Enter: [13] });
+  });
+});
@@ -0,0 +1,91 @@
+import { ScrollManager } from '../scroll';
+
+function mockRect(element: HTMLElement, left: number, top: number, width: number, height: number) {
+  element.getBoundingClientRect = () =>
+    ({ left, top, width, height, right: left + width, bottom: top + height }) as DOMRect;
+}
+
+// A 300px wide rail with 1000px of content and a card at 400-500px
+function setupRail(attributes = '') {
+  document.body.innerHTML = `
+    <div id="rail" ${attributes}>
+      <div id="card"></div>
+    </div>
+  `;
+  const rail = document.getElementById('rail') as HTMLElement;
+  const card = document.getElementById('card') as HTMLElement;
+
+  Object.defineProperty(rail, 'scrollWidth', { value: 1000 });
+  Object.defineProperty(rail, 'clientWidth', { value: 300 });
+  mockRect(rail, 0, 0, 300, 100);
+  mockRect(card, 400, 0, 100, 100);
+
+  return { rail, card };
+}
+
+describe('ScrollManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    document.body.innerHTML = '';
+    jest.useRealTimers();
+  });
+
+  it('should scroll just enough to keep the padding in padding mode', () => {
+    const { rail, card } = setupRail('data-focus-scroll="padding" data-focus-scroll-padding="20"');
+
+    new ScrollManager({ smooth: false }).scrollIntoView(card);
+
+    expect(rail.scrollLeft).toBe(220);
+  });
+
+  it('should keep the element centred in center mode', () => {
+    const { rail, card } = setupRail('data-focus-scroll="center"');
+
+    new ScrollManager({ smooth: false }).scrollIntoView(card);
+
+    expect(rail.scrollLeft).toBe(300);
+  });
+
+  it('should scroll by whole pages in page mode', () => {
+    const { rail, card } = setupRail('data-focus-scroll="page"');
+
+    new ScrollManager({ smooth: false }).scrollIntoView(card);
+
+    expect(rail.scrollLeft).toBe(300);
+  });
+
+  it('should use the default mode for containers without the attribute', () => {
+    const { rail, card } = setupRail('style="overflow-x: auto"');
+
+    new ScrollManager({ smooth: false, mode: 'center' }).scrollIntoView(card);
+
+    expect(rail.scrollLeft).toBe(300);
+  });
+
+  it('should not scroll containers in none mode', () => {
+    const { rail, card } = setupRail('data-focus-scroll="none"');
+
+    new ScrollManager({ smooth: false }).scrollIntoView(card);
+
+    expect(rail.scrollLeft).toBe(0);
+  });
+
+  it('should animate with the configured duration', () => {
+    const { rail, card } = setupRail('data-focus-scroll="center"');
+    const manager = new ScrollManager({ duration: 200 });
+
+    manager.scrollIntoView(card);
+    expect(manager.isAnimating()).toBe(true);
+
+    jest.advanceTimersByTime(100);
+    expect(rail.scrollLeft).toBeGreaterThan(0);
+    expect(rail.scrollLeft).toBeLessThan(300);
+
+    jest.advanceTimersByTime(200);
+    expect(rail.scrollLeft).toBe(300);
+    expect(manager.isAnimating()).toBe(false);
+  });
+});
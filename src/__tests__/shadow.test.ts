@@ -0,0 +1,81 @@
+import {
+  containsDeep,
+  getComposedParent,
+  getDeepActiveElement,
+  querySelectorAllDeep,
+} from '../shadow';
+
+// <div id="outer"> hosts a shadow root with a card, which hosts another shadow root with a button
+function setupNestedShadow() {
+  document.body.innerHTML = `
+    <div id="light" class="focusable"></div>
+    <div id="outer"></div>
+    <div id="after" class="focusable"></div>
+  `;
+  const outer = document.getElementById('outer') as HTMLElement;
+  const outerRoot = outer.attachShadow({ mode: 'open' });
+  outerRoot.innerHTML = '<div id="card" class="focusable"><div id="inner"></div></div>';
+
+  const inner = outerRoot.getElementById('inner') as HTMLElement;
+  const innerRoot = inner.attachShadow({ mode: 'open' });
+  innerRoot.innerHTML = '<button id="button" class="focusable"></button>';
+
+  return { outer, outerRoot, inner, innerRoot };
+}
+
+describe('Shadow DOM traversal', () => {
+  afterEach(() => {
+    document.body.innerHTML = '';
+  });
+
+  it('should find elements in open shadow roots in tree order', () => {
+    setupNestedShadow();
+
+    const ids = querySelectorAllDeep(document, '.focusable', 3).map((el) => el.id);
+
+    expect(ids).toEqual(['light', 'card', 'button', 'after']);
+  });
+
+  it('should respect the depth limit', () => {
+    setupNestedShadow();
+
+    expect(querySelectorAllDeep(document, '.focusable', 0).map((el) => el.id)).toEqual([
+      'light',
+      'after',
+    ]);
+    expect(querySelectorAllDeep(document, '.focusable', 1).map((el) => el.id)).toEqual([
+      'light',
+      'card',
+      'after',
+    ]);
+  });
+
+  it('should search the shadow root of a host passed as root', () => {
+    const { outer } = setupNestedShadow();
+
+    expect(querySelectorAllDeep(outer, '.focusable', 3).map((el) => el.id)).toEqual([
+      'card',
+      'button',
+    ]);
+  });
+
+  it('should walk and test ancestry across shadow hosts', () => {
+    const { outer, inner, innerRoot } = setupNestedShadow();
+    const button = innerRoot.getElementById('button') as HTMLElement;
+
+    expect(getComposedParent(button)).toBe(inner);
+    expect(containsDeep(outer, button)).toBe(true);
+    expect(containsDeep(document.getElementById('light') as HTMLElement, button)).toBe(false);
+  });
+
+  it('should resolve the deep active element', () => {
+    const { outer, innerRoot } = setupNestedShadow();
+    const button = innerRoot.getElementById('button') as HTMLElement;
+
+    button.focus();
+
+    expect(document.activeElement).toBe(outer);
+    expect(getDeepActiveElement(document, 3)).toBe(button);
+    expect(getDeepActiveElement(document, 0)).toBe(outer);
+  });
+});
@@ -0,0 +1,55 @@
+import {
+  defaultStrategy,
+  nearestEdgeStrategy,
+  Rect,
+  resolveScoringStrategy,
+  SCORING_STRATEGIES,
+  strictStrategy,
+  w3cStrategy,
+} from '../strategies';
+
+function rect(left: number, top: number, width = 100, height = 100): Rect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+describe('Scoring strategies', () => {
+  const current = rect(0, 0);
+  const right = rect(120, 0);
+  const diagonal = rect(120, 120);
+  const behind = rect(-120, 0);
+
+  it('should reject candidates behind the current element', () => {
+    Object.values(SCORING_STRATEGIES).forEach((strategy) => {
+      expect(strategy(current, behind, 'ArrowRight')).toBeNull();
+    });
+  });
+
+  it('should keep the default heuristic', () => {
+    // 120px along the axis with the 0.8 alignment bonus
+    expect(defaultStrategy(current, right, 'ArrowRight')).toBeCloseTo(96);
+    // No overlap on the cross axis
+    expect(defaultStrategy(current, diagonal, 'ArrowRight')).toBeNull();
+  });
+
+  it('should score by the closest edges with nearestEdge', () => {
+    expect(nearestEdgeStrategy(current, right, 'ArrowRight')).toBe(20);
+    expect(nearestEdgeStrategy(current, diagonal, 'ArrowRight')).toBeCloseTo(Math.sqrt(800));
+  });
+
+  it('should add the orthogonal gap with w3c', () => {
+    expect(w3cStrategy(current, right, 'ArrowRight')).toBe(20);
+    expect(w3cStrategy(current, diagonal, 'ArrowRight')).toBeCloseTo(Math.sqrt(800) + 20);
+  });
+
+  it('should only accept aligned candidates with strict', () => {
+    expect(strictStrategy(current, right, 'ArrowRight')).toBe(120);
+    expect(strictStrategy(current, rect(120, 60), 'ArrowRight')).toBeNull();
+  });
+
+  it('should resolve strategies by name or function', () => {
+    const custom = () => 1;
+
+    expect(resolveScoringStrategy('w3c')).toBe(w3cStrategy);
+    expect(resolveScoringStrategy(custom)).toBe(custom);
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Coordination of several FocusEngine instances on one page, e.g. a main app
+ * and a picture-in-picture panel. Exactly one registered engine owns input at a time.
+ */
+
+/**
+ * What the coordinator needs of an engine; FocusEngine provides it
+ */
+export interface CoordinatedEngine {
+  setInputEnabled(enabled: boolean): void;
+  takeFocus(): void;
+}
+
+/**
+ * Hands input over between engines explicitly
+ */
+export class FocusCoordinator<T extends CoordinatedEngine = CoordinatedEngine> {
+  private engines: T[] = [];
+  private owner: T | null = null;
+
+  /**
+   * Registers an engine. The first registered engine owns input, later ones wait
+   * @returns A function that unregisters the engine
+   */
+  public register(engine: T): () => void {
+    if (!this.engines.includes(engine)) {
+      this.engines.push(engine);
+      if (this.owner) {
+        engine.setInputEnabled(false);
+      } else {
+        this.owner = engine;
+        engine.setInputEnabled(true);
+      }
+    }
+
+    return () => this.unregister(engine);
+  }
+
+  /**
+   * Unregisters an engine. If it owned input, the most recently registered engine takes over.
+   * The input state of the engine is left as it is, so an engine that was waiting keeps ignoring
+   * input instead of reacting to keys alongside the owner
+   */
+  public unregister(engine: T): void {
+    const index = this.engines.indexOf(engine);
+    if (index === -1) return;
+
+    this.engines.splice(index, 1);
+
+    if (this.owner === engine) {
+      this.owner = null;
+      const next = this.engines[this.engines.length - 1];
+      if (next) {
+        this.activate(next);
+      }
+    }
+  }
+
+  /**
+   * Hands input to an engine: all other engines stop reacting to input
+   * and focus moves into the new owner
+   */
+  public activate(engine: T): void {
+    if (!this.engines.includes(engine)) {
+      this.register(engine);
+    }
+
+    this.engines.forEach((other) => {
+      if (other !== engine) {
+        other.setInputEnabled(false);
+      }
+    });
+
+    this.owner = engine;
+    engine.setInputEnabled(true);
+    engine.takeFocus();
+  }
+
+  /**
+   * Returns the engine that owns input
+   */
+  public getOwner(): T | null {
+    return this.owner;
+  }
+}
@@ -0,0 +1,823 @@
+/**
+ * DOM-free navigation core: the spatial algorithm of FocusEngine over abstract nodes
+ * with ids, rects and group metadata. FocusEngine is a DOM adapter over these functions;
+ * canvas and WebGL UIs, or tests in Node, can use them (or NavigationCore) directly.
+ */
+
+import {
+  EdgeBehavior,
+  EdgeBehaviorConfig,
+  RectItem,
+  findNextLineTarget,
+  findWrapTarget,
+  getEdgeBehavior,
+} from './edges';
+import {
+  DEFAULT_FLOW,
+  Direction,
+  FlowSource,
+  NavigationDirection,
+  PhysicalSide,
+  WritingFlow,
+  getDirectionalValue,
+  getLogicalSide,
+  getOppositeSide,
+  getSideDirection,
+  resolveDirection,
+} from './flow';
+import { Rect, ScoringStrategy, ScoringStrategyName, resolveScoringStrategy } from './strategies';
+
+export {
+  SCORING_STRATEGIES,
+  defaultStrategy,
+  getCenter,
+  getProjection,
+  nearestEdgeStrategy,
+  resolveScoringStrategy,
+  strictStrategy,
+  w3cStrategy,
+} from './strategies';
+export type { Point, Rect, ScoringStrategy, ScoringStrategyName } from './strategies';
+export { findNextLineTarget, findWrapTarget, getEdgeBehavior } from './edges';
+export type { EdgeBehavior, EdgeBehaviorConfig, EdgeHandler, RectItem } from './edges';
+export {
+  DEFAULT_FLOW,
+  getLogicalSide,
+  getDirectionalValue,
+  resolveDirection,
+  toLogicalDirection,
+} from './flow';
+export type {
+  Direction,
+  FlowSource,
+  LogicalDirection,
+  NavigationDirection,
+  PhysicalSide,
+  WritingFlow,
+  WritingMode,
+} from './flow';
+
+/**
+ * Type for parent position: a physical side, or the inline start or end of the group's flow
+ */
+export type ParentPosition = PhysicalSide | 'start' | 'end';
+
+/**
+ * Which element receives focus when navigation enters a section
+ * - 'last-focused': the element that was focused when the section was left
+ * - 'first': the first element of the section
+ * - 'default': the section's default element
+ */
+export type SectionEnterRule = 'last-focused' | 'first' | 'default';
+
+/**
+ * What happens when navigation leaves a section in a direction
+ * - 'allow': continue with the nearest element outside the section
+ * - 'block': keep focus inside the section
+ * - { section }: jump to the named section
+ */
+export type SectionLeaveRule = 'allow' | 'block' | { section: string };
+
+/**
+ * Navigation rules of a section, shared by DOM sections and node sections
+ */
+export interface SectionRules<T> {
+  /** Unique section name */
+  id: string;
+  /** Element to focus when navigation enters the section (default: the spatially nearest one) */
+  enterTo?: SectionEnterRule;
+  /** Leave rule per arrow or logical direction (default: 'allow') */
+  leaveFor?: Partial<Record<NavigationDirection, SectionLeaveRule>>;
+  /** Scoring strategy for navigation that starts in this section (default: the engine's) */
+  scoring?: ScoringStrategy | ScoringStrategyName;
+  /** Edge behaviour inside this section (default: the engine's) */
+  edgeBehavior?: EdgeBehaviorConfig<T>;
+}
+
+/**
+ * What the section-aware search needs to know about items
+ */
+export interface SectionSearch<T> {
+  /** The section that contains an item */
+  getSection(item: T): SectionRules<T> | null;
+  /** The item that receives focus when entering a section, given the spatial candidate */
+  getSectionEntry(id: string, fallback?: T): T | null;
+  /** The best scored candidate in a direction */
+  findBest(current: T, direction: Direction, candidates: T[]): T | null;
+  /** The writing flow logical leave rules of an item are resolved in (default: LTR horizontal) */
+  getFlow?(item: T): WritingFlow;
+}
+
+/**
+ * Checks whether a section keeps focus inside it in a direction. A blocked leave is
+ * terminal: edge behaviours like 'wrap' do not apply either
+ */
+export function isLeaveBlocked<T>(
+  section: SectionRules<T> | null,
+  direction: Direction,
+  flow?: FlowSource
+): boolean {
+  return !!section && getDirectionalValue(section.leaveFor, direction, flow) === 'block';
+}
+
+/**
+ * Scores the candidates and returns the best one in the given direction,
+ * the first one on ties
+ */
+export function findBestCandidate<T>(
+  currentRect: Rect,
+  candidates: RectItem<T>[],
+  direction: Direction,
+  strategy: ScoringStrategy
+): T | null {
+  let best: T | null = null;
+  let minDistance = Infinity;
+
+  candidates.forEach((candidate) => {
+    const distance = strategy(currentRect, candidate.rect, direction);
+
+    if (distance !== null && distance < minDistance) {
+      minDistance = distance;
+      best = candidate.item;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Finds the next item in a direction. Candidates inside the current section are preferred;
+ * leaving the section follows its leave rule, and entering another section follows
+ * that section's enter rule.
+ * @param current The item navigation starts from
+ * @param candidates Visible items other than the current one
+ */
+export function findNextInSections<T>(
+  current: T,
+  candidates: T[],
+  direction: Direction,
+  search: SectionSearch<T>
+): T | null {
+  const currentSection = search.getSection(current);
+
+  if (currentSection) {
+    const insideCandidate = search.findBest(
+      current,
+      direction,
+      candidates.filter((item) => search.getSection(item) === currentSection)
+    );
+    if (insideCandidate) {
+      return insideCandidate;
+    }
+
+    const leaveRule =
+      getDirectionalValue(
+        currentSection.leaveFor,
+        direction,
+        () => search.getFlow?.(current) ?? DEFAULT_FLOW
+      ) ?? 'allow';
+    if (leaveRule === 'block') {
+      return null;
+    }
+    if (typeof leaveRule === 'object') {
+      return search.getSectionEntry(leaveRule.section);
+    }
+  }
+
+  const next = search.findBest(
+    current,
+    direction,
+    currentSection
+      ? candidates.filter((item) => search.getSection(item) !== currentSection)
+      : candidates
+  );
+  if (!next) {
+    return null;
+  }
+
+  // Entering another section applies that section's enter rule
+  const nextSection = search.getSection(next);
+  return nextSection ? search.getSectionEntry(nextSection.id, next) : next;
+}
+
+/**
+ * Resolves the item that should receive focus when entering a section
+ * @param section The section
+ * @param members Visible items of the section, in reading order
+ * @param options The last focused item of the section, a test for its default item,
+ * and the item to use when the section has no enter rule (the spatial candidate)
+ */
+export function resolveSectionEntry<T>(
+  section: SectionRules<T>,
+  members: T[],
+  options: { lastFocused?: T; isDefault?: (item: T) => boolean; fallback?: T } = {}
+): T | null {
+  if (members.length === 0) {
+    return null;
+  }
+
+  switch (section.enterTo) {
+    case 'last-focused':
+      if (options.lastFocused && members.includes(options.lastFocused)) {
+        return options.lastFocused;
+      }
+      break;
+    case 'first':
+      return members[0];
+    case 'default': {
+      const defaultItem = options.isDefault ? members.find(options.isDefault) : undefined;
+      if (defaultItem) {
+        return defaultItem;
+      }
+      break;
+    }
+  }
+
+  return options.fallback && members.includes(options.fallback) ? options.fallback : members[0];
+}
+
+/**
+ * Resolves the edge behaviour of a direction; the first config that sets one wins
+ * @param configs Configs from the most to the least specific
+ * @param flow Writing flow that logical keys of the configs are resolved against
+ */
+export function resolveEdgeBehavior<T>(
+  direction: Direction,
+  configs: Array<EdgeBehaviorConfig<T> | undefined>,
+  flow?: FlowSource
+): EdgeBehavior<T> {
+  for (const config of configs) {
+    const behavior = getEdgeBehavior(config, direction, flow);
+    if (behavior !== undefined) {
+      return behavior;
+    }
+  }
+  return 'stop';
+}
+
+/**
+ * Finds the target of a built-in edge behaviour among the items of a scope
+ */
+export function findEdgeTarget<T>(
+  behavior: 'wrap' | 'next-row',
+  currentRect: Rect,
+  candidates: RectItem<T>[],
+  direction: Direction
+): T | null {
+  return behavior === 'wrap'
+    ? findWrapTarget(currentRect, candidates, direction)
+    : findNextLineTarget(currentRect, candidates, direction);
+}
+
+/**
+ * Resolves a parent position to a physical side; 'start' and 'end' are the inline start
+ * and end of the group's writing flow
+ */
+export function resolveParentPosition(
+  position: ParentPosition,
+  flow: WritingFlow = DEFAULT_FLOW
+): PhysicalSide {
+  switch (position) {
+    case 'start':
+      return getLogicalSide('inline-start', flow);
+    case 'end':
+      return getLogicalSide('inline-end', flow);
+    default:
+      return position;
+  }
+}
+
+/**
+ * Direction that leads from children back to their parent
+ */
+export function getParentDirection(side: PhysicalSide): Direction {
+  return getSideDirection(side);
+}
+
+/**
+ * Direction that leads from a parent into its children
+ */
+export function getChildrenDirection(side: PhysicalSide): Direction {
+  return getSideDirection(getOppositeSide(side));
+}
+
+/**
+ * Checks if a rect lies entirely beyond another one on a side
+ */
+function isBeyond(rect: Rect, other: Rect, side: PhysicalSide): boolean {
+  switch (side) {
+    case 'left':
+      return other.right <= rect.left;
+    case 'right':
+      return other.left >= rect.right;
+    case 'top':
+      return other.bottom <= rect.top;
+    default:
+      return other.top >= rect.bottom;
+  }
+}
+
+/**
+ * Checks if a rect is at the edge of its sibling group on a side:
+ * no sibling in the same row (for left and right) or column (for top and bottom) lies beyond it
+ * @param rect Rect of the item
+ * @param siblings Rects of the other items of the group
+ * @param side The side to check
+ */
+export function isAtEdge(rect: Rect, siblings: Rect[], side: PhysicalSide): boolean {
+  const horizontal = side === 'left' || side === 'right';
+  return !siblings.some(
+    (sibling) =>
+      isBeyond(rect, sibling, side) &&
+      (horizontal
+        ? sibling.bottom > rect.top && sibling.top < rect.bottom
+        : sibling.right > rect.left && sibling.left < rect.right)
+  );
+}
+
+/**
+ * Checks if a rect is the leftmost of its row among its siblings
+ */
+export function isElementAtLeftEdge(rect: Rect, siblings: Rect[]): boolean {
+  return isAtEdge(rect, siblings, 'left');
+}
+
+/**
+ * Checks if a rect is the rightmost of its row among its siblings
+ */
+export function isElementAtRightEdge(rect: Rect, siblings: Rect[]): boolean {
+  return isAtEdge(rect, siblings, 'right');
+}
+
+/**
+ * Checks if a rect is the topmost of its column among its siblings, e.g. the first row
+ * below a tab bar
+ */
+export function isElementAtTopEdge(rect: Rect, siblings: Rect[]): boolean {
+  return isAtEdge(rect, siblings, 'top');
+}
+
+/**
+ * Checks if a rect is the bottommost of its column among its siblings, e.g. the last row
+ * above a bottom navigation bar
+ */
+export function isElementAtBottomEdge(rect: Rect, siblings: Rect[]): boolean {
+  return isAtEdge(rect, siblings, 'bottom');
+}
+
+/**
+ * Checks if a parent lies on its configured side of a child
+ */
+export function isParentBeside(parentRect: Rect, childRect: Rect, side: PhysicalSide): boolean {
+  return isBeyond(childRect, parentRect, side);
+}
+
+/**
+ * Checks if children lie on the side opposite to the parent position, with 5px of tolerance
+ */
+export function areChildrenBeside(parentRect: Rect, childRect: Rect, side: PhysicalSide): boolean {
+  switch (side) {
+    case 'right':
+      return childRect.right <= parentRect.left + 5;
+    case 'top':
+      return childRect.top >= parentRect.bottom - 5;
+    case 'bottom':
+      return childRect.bottom <= parentRect.top + 5;
+    default:
+      return childRect.left >= parentRect.right - 5;
+  }
+}
+
+/**
+ * Decides whether a move from a parent goes into its children
+ * @param parentRect Rect of the parent
+ * @param firstChildRect Rect of its first visible child, or null if none is visible
+ * @param side Physical side of the parent, see resolveParentPosition()
+ */
+export function shouldEnterChildren(
+  parentRect: Rect,
+  firstChildRect: Rect | null,
+  direction: Direction,
+  side: PhysicalSide
+): boolean {
+  return (
+    direction === getChildrenDirection(side) &&
+    !!firstChildRect &&
+    areChildrenBeside(parentRect, firstChildRect, side)
+  );
+}
+
+/**
+ * Decides whether a move from a child goes back to its parent: the move must point
+ * towards the parent, the child must be at that edge of its group and the parent beside it
+ * @param currentRect Rect of the child
+ * @param siblings Rects of the other visible children of the group
+ * @param parentRect Rect of the visible parent, or null if it is hidden
+ * @param side Physical side of the parent, see resolveParentPosition()
+ */
+export function shouldReturnToParent(
+  currentRect: Rect,
+  siblings: Rect[],
+  parentRect: Rect | null,
+  direction: Direction,
+  side: PhysicalSide
+): boolean {
+  return (
+    direction === getParentDirection(side) &&
+    isAtEdge(currentRect, siblings, side) &&
+    !!parentRect &&
+    isParentBeside(parentRect, currentRect, side)
+  );
+}
+
+/**
+ * Picks the child to focus when entering a group: the last visited one, or the first
+ */
+export function pickChild<T>(children: T[], lastVisited?: T): T | undefined {
+  return lastVisited && children.includes(lastVisited) ? lastVisited : children[0];
+}
+
+/**
+ * The parent/child hierarchy of a set of items, to any depth: an item can open a group
+ * as a parent and belong to another group as a child at the same time
+ */
+export class FocusTree<T> {
+  private parents: Map<string, T[]> = new Map();
+  private children: Map<string, T[]> = new Map();
+
+  /**
+   * @param items The items, in reading order
+   * @param getParentId Id of the group an item opens as a parent
+   * @param getChildOf Id of the group an item belongs to as a child
+   */
+  constructor(
+    items: T[],
+    getParentId: (item: T) => string | null | undefined,
+    private getChildOf: (item: T) => string | null | undefined
+  ) {
+    items.forEach((item) => {
+      const parentId = getParentId(item);
+      if (parentId) {
+        // Every parent of a group is kept; the first accepted one wins at query time
+        const parents = this.parents.get(parentId) || [];
+        parents.push(item);
+        this.parents.set(parentId, parents);
+      }
+
+      const childOf = getChildOf(item);
+      if (childOf) {
+        const group = this.children.get(childOf) || [];
+        group.push(item);
+        this.children.set(childOf, group);
+      }
+    });
+  }
+
+  /**
+   * Returns the first item in reading order that opens a group
+   * @param accept Filters candidate parents, e.g. to skip hidden ones
+   */
+  public getParent(groupId: string, accept: (item: T) => boolean = () => true): T | null {
+    return this.parents.get(groupId)?.find(accept) ?? null;
+  }
+
+  /**
+   * Returns the direct children of a group, in reading order
+   */
+  public getChildren(groupId: string): T[] {
+    return this.children.get(groupId) || [];
+  }
+
+  /**
+   * Returns the parents above an item, nearest first. Stops at a cycle or at a group
+   * without an accepted parent
+   * @param accept Filters candidate parents, e.g. to skip hidden ones
+   */
+  public getAncestors(item: T, accept?: (item: T) => boolean): T[] {
+    const ancestors: T[] = [];
+    const visited = new Set<T>([item]);
+
+    let groupId = this.getChildOf(item);
+    while (groupId) {
+      const parent = this.getParent(groupId, accept);
+      if (parent === null || visited.has(parent)) {
+        break;
+      }
+      ancestors.push(parent);
+      visited.add(parent);
+      groupId = this.getChildOf(parent);
+    }
+
+    return ancestors;
+  }
+}
+
+/**
+ * A navigable node of a non-DOM UI
+ */
+export interface NavigationNode {
+  /** Unique node id */
+  id: string;
+  /** Geometry in any consistent coordinate space */
+  rect: Rect;
+  /** Id of the group this node opens as a parent */
+  parent?: string;
+  /** Position of this parent relative to its children (default: the core's parentPosition) */
+  parentPosition?: ParentPosition;
+  /** Id of the group this node belongs to as a child; a parent can be a child of another group */
+  childOf?: string;
+  /** Id of the section that contains the node */
+  section?: string;
+}
+
+/**
+ * A section of nodes with its own navigation rules
+ */
+export interface NavigationSection extends SectionRules<NavigationNode> {
+  /** Id of the node used by the 'default' enter rule */
+  defaultNode?: string;
+}
+
+/**
+ * Options for configuring NavigationCore
+ */
+export interface NavigationCoreOptions {
+  /** How candidates are ranked: a built-in strategy name or a custom function (default: 'default') */
+  scoring?: ScoringStrategy | ScoringStrategyName;
+  /** Position of parents relative to their children (default: 'left') */
+  parentPosition?: ParentPosition;
+  /** Writing flow of the UI, for logical directions and positions (default: LTR horizontal) */
+  flow?: WritingFlow;
+  /** Sections with their own enter and leave rules */
+  sections?: NavigationSection[];
+  /** What happens when there is no candidate in a direction (default: 'stop') */
+  edgeBehavior?: EdgeBehaviorConfig<NavigationNode>;
+  /** Edge behaviour per parent group, keyed by parent id */
+  groupEdgeBehavior?: Record<string, EdgeBehaviorConfig<NavigationNode>>;
+}
+
+/**
+ * Spatial navigation over plain nodes, with the parent/child, section and edge rules
+ * of FocusEngine. It keeps the focused node and the memory of groups and sections;
+ * rendering focus is up to the host
+ */
+export class NavigationCore {
+  private nodes: NavigationNode[] = [];
+  private tree: FocusTree<NavigationNode> = this.buildTree();
+  private focusedId: string | null = null;
+  private lastChildMap: Map<string, string> = new Map();
+  private sectionMemory: Map<string, string> = new Map();
+  private scoring: ScoringStrategy | ScoringStrategyName;
+  private parentPosition: ParentPosition;
+  private flow: WritingFlow;
+  private sections: NavigationSection[];
+  private edgeBehavior?: EdgeBehaviorConfig<NavigationNode>;
+  private groupEdgeBehavior: Record<string, EdgeBehaviorConfig<NavigationNode>>;
+
+  constructor(options: NavigationCoreOptions = {}) {
+    this.scoring = options.scoring || 'default';
+    this.parentPosition = options.parentPosition || 'left';
+    this.flow = options.flow || DEFAULT_FLOW;
+    this.sections = options.sections ? [...options.sections] : [];
+    this.edgeBehavior = options.edgeBehavior;
+    this.groupEdgeBehavior = options.groupEdgeBehavior || {};
+  }
+
+  /**
+   * Replaces the nodes, in reading order. Focus stays on its node if it still exists
+   */
+  public setNodes(nodes: NavigationNode[]): void {
+    this.nodes = [...nodes];
+    this.tree = this.buildTree();
+    if (this.focusedId !== null && !this.getNode(this.focusedId)) {
+      this.focusedId = null;
+    }
+  }
+
+  /**
+   * Returns the nodes
+   */
+  public getNodes(): NavigationNode[] {
+    return this.nodes;
+  }
+
+  /**
+   * Returns the node with an id
+   */
+  public getNode(id: string): NavigationNode | null {
+    return this.nodes.find((node) => node.id === id) || null;
+  }
+
+  /**
+   * Returns the focused node
+   */
+  public getFocused(): NavigationNode | null {
+    return this.focusedId === null ? null : this.getNode(this.focusedId);
+  }
+
+  /**
+   * Returns the parents above a node, nearest first
+   */
+  public getAncestors(id: string): NavigationNode[] {
+    const node = this.getNode(id);
+    return node ? this.tree.getAncestors(node) : [];
+  }
+
+  /**
+   * Returns the direct children of a group, in reading order
+   */
+  public getChildren(groupId: string): NavigationNode[] {
+    return this.tree.getChildren(groupId);
+  }
+
+  /**
+   * Focuses a node and remembers it for its group and section, and each of its ancestors
+   * for the group above it, so entering any level returns to the path last visited
+   * @returns The focused node, or null if there is no node with this id
+   */
+  public focus(id: string): NavigationNode | null {
+    const node = this.getNode(id);
+    if (!node) {
+      return null;
+    }
+
+    this.focusedId = id;
+    [node, ...this.tree.getAncestors(node)].forEach((item) => {
+      if (item.childOf) {
+        this.lastChildMap.set(item.childOf, item.id);
+      }
+    });
+    if (node.section) {
+      this.sectionMemory.set(node.section, id);
+    }
+    return node;
+  }
+
+  /**
+   * Moves focus in an arrow or logical direction, like an arrow key
+   * @returns The newly focused node, or null if focus stays
+   */
+  public move(navigationDirection: NavigationDirection): NavigationNode | null {
+    const start = this.getFocused() || this.nodes[0];
+    if (!start) {
+      return null;
+    }
+
+    const direction = resolveDirection(navigationDirection, this.flow);
+
+    if (start.parent) {
+      const firstChild = this.getChildren(start.parent)[0];
+      if (
+        shouldEnterChildren(
+          start.rect,
+          firstChild?.rect ?? null,
+          direction,
+          this.getParentSide(start)
+        )
+      ) {
+        const child = this.enterChildren(start);
+        if (child) {
+          return child;
+        }
+      }
+    }
+
+    if (start.childOf) {
+      const parent = this.tree.getParent(start.childOf);
+      const siblings = this.getChildren(start.childOf).filter((node) => node !== start);
+      if (
+        parent &&
+        shouldReturnToParent(
+          start.rect,
+          siblings.map((node) => node.rect),
+          parent.rect,
+          direction,
+          this.getParentSide(parent)
+        )
+      ) {
+        return this.focus(parent.id);
+      }
+    }
+
+    const next = findNextInSections(
+      start,
+      this.nodes.filter((node) => node !== start),
+      direction,
+      {
+        getSection: (node) => this.getSection(node),
+        getSectionEntry: (id, fallback) => this.getSectionEntry(id, fallback),
+        findBest: (current, dir, candidates) =>
+          findBestCandidate(
+            current.rect,
+            candidates.map((item) => ({ item, rect: item.rect })),
+            dir,
+            resolveScoringStrategy(this.getSection(current)?.scoring ?? this.scoring)
+          ),
+        getFlow: () => this.flow,
+      }
+    );
+    if (next) {
+      return this.focus(next.id);
+    }
+
+    const target = this.findEdgeTarget(start, direction);
+    return target && target !== start ? this.focus(target.id) : null;
+  }
+
+  /**
+   * Moves focus from a parent into its children, like Enter
+   * @returns The focused child, or null if the focused node has no children
+   */
+  public enter(): NavigationNode | null {
+    const focused = this.getFocused();
+    return focused?.parent ? this.enterChildren(focused) : null;
+  }
+
+  /**
+   * Moves focus from a child back to its parent, one level up, like Back
+   * @returns The focused parent, or null if the focused node is not a child
+   */
+  public back(): NavigationNode | null {
+    const focused = this.getFocused();
+    const parent = focused ? this.tree.getAncestors(focused)[0] : undefined;
+    return parent ? this.focus(parent.id) : null;
+  }
+
+  private buildTree(): FocusTree<NavigationNode> {
+    return new FocusTree(
+      this.nodes,
+      (node) => node.parent,
+      (node) => node.childOf
+    );
+  }
+
+  private getParentSide(parent: NavigationNode): PhysicalSide {
+    return resolveParentPosition(parent.parentPosition || this.parentPosition, this.flow);
+  }
+
+  private enterChildren(parent: NavigationNode): NavigationNode | null {
+    const children = this.getChildren(parent.parent as string);
+    const lastId = this.lastChildMap.get(parent.parent as string);
+    const child = pickChild(children, lastId ? this.getNode(lastId) || undefined : undefined);
+    return child ? this.focus(child.id) : null;
+  }
+
+  private getSection(node: NavigationNode): NavigationSection | null {
+    return node.section ? this.sections.find((s) => s.id === node.section) || null : null;
+  }
+
+  private getSectionEntry(id: string, fallback?: NavigationNode): NavigationNode | null {
+    const section = this.sections.find((s) => s.id === id);
+    if (!section) {
+      return null;
+    }
+
+    const lastId = this.sectionMemory.get(id);
+    return resolveSectionEntry(
+      section,
+      this.nodes.filter((node) => node.section === id),
+      {
+        lastFocused: lastId ? this.getNode(lastId) || undefined : undefined,
+        isDefault: (node) => node.id === section.defaultNode,
+        fallback,
+      }
+    );
+  }
+
+  private findEdgeTarget(start: NavigationNode, direction: Direction): NavigationNode | null {
+    const groupId = start.childOf;
+    const section = this.getSection(start);
+    if (isLeaveBlocked(section, direction, this.flow)) {
+      return null;
+    }
+    const behavior = resolveEdgeBehavior(
+      direction,
+      [
+        groupId ? this.groupEdgeBehavior[groupId] : undefined,
+        section?.edgeBehavior,
+        this.edgeBehavior,
+      ],
+      this.flow
+    );
+
+    if (behavior === 'stop') {
+      return null;
+    }
+    if (typeof behavior === 'function') {
+      return behavior(start, direction) || null;
+    }
+
+    // Wrap within the most specific container: the parent group, the section or all nodes
+    const scope = this.nodes.filter(
+      (node) =>
+        node !== start &&
+        (groupId ? node.childOf === groupId : !section || this.getSection(node) === section)
+    );
+    return findEdgeTarget(
+      behavior,
+      start.rect,
+      scope.map((item) => ({ item, rect: item.rect })),
+      direction
+    );
+  }
+}
@@ -0,0 +1,166 @@
+/**
+ * Edge behaviours: where focus goes when there is no candidate in a direction.
+ * The helpers work on rects only, so they apply to any group of items.
+ */
+
+import { Direction, FlowSource, NavigationDirection, getDirectionalValue } from './flow';
+import type { Rect } from './strategies';
+
+/**
+ * Custom edge handler. Return an element (or node) to focus it, or nothing to stay put
+ */
+export type EdgeHandler<T = HTMLElement> = (element: T, direction: Direction) => T | null | void;
+
+/**
+ * What happens when navigation reaches an edge
+ * - 'stop': focus stays where it is
+ * - 'wrap': focus wraps to the opposite end of the same row or column
+ * - 'next-row': focus continues in reading order, on the next (or previous) row or column
+ * - a function: custom handler
+ */
+export type EdgeBehavior<T = HTMLElement> = 'stop' | 'wrap' | 'next-row' | EdgeHandler<T>;
+
+/**
+ * Edge behaviour for all directions, or per arrow or logical direction
+ */
+export type EdgeBehaviorConfig<T = HTMLElement> =
+  | EdgeBehavior<T>
+  | Partial<Record<NavigationDirection, EdgeBehavior<T>>>;
+
+/**
+ * An item with its geometry
+ */
+export interface RectItem<T> {
+  item: T;
+  rect: Rect;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+/**
+ * Resolves the edge behaviour of a direction from a config
+ * @param flow Writing flow that logical keys of the config are resolved against
+ */
+export function getEdgeBehavior<T>(
+  config: EdgeBehaviorConfig<T> | undefined,
+  direction: Direction,
+  flow?: FlowSource
+): EdgeBehavior<T> | undefined {
+  if (config === undefined || typeof config === 'string' || typeof config === 'function') {
+    return config;
+  }
+  return getDirectionalValue(config, direction, flow);
+}
+
+/**
+ * Checks whether a direction moves towards the end (right or down)
+ */
+function isForward(direction: Direction): boolean {
+  return direction === 'ArrowRight' || direction === 'ArrowDown';
+}
+
+/**
+ * Span of a rect along the navigation direction
+ */
+function mainSpan(rect: Rect, direction: Direction): Span {
+  return direction === 'ArrowLeft' || direction === 'ArrowRight'
+    ? { start: rect.left, end: rect.right }
+    : { start: rect.top, end: rect.bottom };
+}
+
+/**
+ * Span of a rect across the navigation direction
+ */
+function crossSpan(rect: Rect, direction: Direction): Span {
+  return direction === 'ArrowLeft' || direction === 'ArrowRight'
+    ? { start: rect.top, end: rect.bottom }
+    : { start: rect.left, end: rect.right };
+}
+
+function overlaps(a: Span, b: Span): boolean {
+  return a.start < b.end && b.start < a.end;
+}
+
+/**
+ * Picks the first item of a line when moving forward, the last one when moving backward
+ */
+function pickLineEnd<T>(line: RectItem<T>[], direction: Direction): T | null {
+  if (line.length === 0) {
+    return null;
+  }
+
+  const forward = isForward(direction);
+  const target = line.reduce((best, candidate) => {
+    const bestSpan = mainSpan(best.rect, direction);
+    const candidateSpan = mainSpan(candidate.rect, direction);
+    return forward
+      ? candidateSpan.start < bestSpan.start
+        ? candidate
+        : best
+      : candidateSpan.end > bestSpan.end
+        ? candidate
+        : best;
+  });
+
+  return target.item;
+}
+
+/**
+ * Finds the item at the opposite end of the current row (left/right) or column (up/down)
+ */
+export function findWrapTarget<T>(
+  currentRect: Rect,
+  candidates: RectItem<T>[],
+  direction: Direction
+): T | null {
+  const currentCross = crossSpan(currentRect, direction);
+  const line = candidates.filter((candidate) =>
+    overlaps(crossSpan(candidate.rect, direction), currentCross)
+  );
+
+  return pickLineEnd(line, direction);
+}
+
+/**
+ * Finds the item that continues in reading order: the start of the next row when moving right,
+ * the end of the previous row when moving left, and the same for columns when moving up/down
+ */
+export function findNextLineTarget<T>(
+  currentRect: Rect,
+  candidates: RectItem<T>[],
+  direction: Direction
+): T | null {
+  const forward = isForward(direction);
+  const currentCross = crossSpan(currentRect, direction);
+
+  const otherLines = candidates.filter((candidate) => {
+    const span = crossSpan(candidate.rect, direction);
+    const center = (span.start + span.end) / 2;
+    return forward ? center > currentCross.end : center < currentCross.start;
+  });
+  if (otherLines.length === 0) {
+    return null;
+  }
+
+  // The nearest row or column on the cross axis
+  const nearest = otherLines.reduce((best, candidate) => {
+    const bestSpan = crossSpan(best.rect, direction);
+    const candidateSpan = crossSpan(candidate.rect, direction);
+    return forward
+      ? candidateSpan.start < bestSpan.start
+        ? candidate
+        : best
+      : candidateSpan.end > bestSpan.end
+        ? candidate
+        : best;
+  });
+  const nearestCross = crossSpan(nearest.rect, direction);
+  const line = otherLines.filter((candidate) =>
+    overlaps(crossSpan(candidate.rect, direction), nearestCross)
+  );
+
+  return pickLineEnd(line, direction);
+}
@@ -0,0 +1,99 @@
+/**
+ * Minimal typed event emitter used by FocusEngine for lifecycle events
+ */
+
+/**
+ * Handler for a single event payload
+ */
+export type EventHandler<T> = (payload: T) => void;
+
+/**
+ * Typed event emitter keyed by an event map interface
+ */
+export class EventEmitter<Events extends object> {
+  private handlers: Map<keyof Events, Set<EventHandler<never>>> = new Map();
+  // Wrappers registered by once(), by event and original handler
+  private onceWrappers: Map<keyof Events, Map<EventHandler<never>, EventHandler<never>>> =
+    new Map();
+
+  /**
+   * Subscribes to an event
+   * @returns A function that removes the subscription
+   */
+  public on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    let handlers = this.handlers.get(event);
+    if (!handlers) {
+      handlers = new Set();
+      this.handlers.set(event, handlers);
+    }
+    handlers.add(handler);
+
+    return () => this.off(event, handler);
+  }
+
+  /**
+   * Removes a previously added subscription, including one added with once()
+   */
+  public off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers.get(event)?.delete(handler);
+    this.removeOnce(event, handler);
+  }
+
+  /**
+   * Subscribes to the next occurrence of an event only
+   * @returns A function that removes the subscription
+   */
+  public once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    this.removeOnce(event, handler);
+
+    const wrapper: EventHandler<Events[K]> = (payload) => {
+      this.removeOnce(event, handler);
+      handler(payload);
+    };
+
+    let wrappers = this.onceWrappers.get(event);
+    if (!wrappers) {
+      wrappers = new Map();
+      this.onceWrappers.set(event, wrappers);
+    }
+    wrappers.set(handler, wrapper);
+    this.on(event, wrapper);
+
+    return () => this.removeOnce(event, handler);
+  }
+
+  /**
+   * Removes the once() wrapper of a handler, if any
+   */
+  private removeOnce<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    const wrappers = this.onceWrappers.get(event);
+    const wrapper = wrappers?.get(handler);
+    if (wrapper) {
+      wrappers?.delete(handler);
+      this.handlers.get(event)?.delete(wrapper);
+    }
+  }
+
+  /**
+   * Checks whether an event has any handler
+   */
+  public hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.handlers.get(event)?.size ?? 0) > 0;
+  }
+
+  /**
+   * Calls every handler of an event. A throwing handler does not stop the others
+   */
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.handlers.get(event);
+    if (!handlers) return;
+
+    Array.from(handlers).forEach((handler) => {
+      try {
+        (handler as EventHandler<Events[K]>)(payload);
+      } catch (error) {
+        console.error(`Error in ${String(event)} handler:`, error);
+      }
+    });
+  }
+}
@@ -0,0 +1,184 @@
+/**
+ * Writing flow: maps logical directions and sides (inline/block start and end)
+ * to physical ones for a CSS writing mode and text direction.
+ */
+
+/**
+ * Direction types for navigation
+ */
+export type Direction = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight';
+
+/**
+ * Directions relative to the writing flow of a container
+ */
+export type LogicalDirection = 'inline-start' | 'inline-end' | 'block-start' | 'block-end';
+
+/**
+ * A physical arrow direction or a logical one
+ */
+export type NavigationDirection = Direction | LogicalDirection;
+
+/**
+ * A physical side of an element
+ */
+export type PhysicalSide = 'left' | 'right' | 'top' | 'bottom';
+
+/**
+ * CSS writing modes
+ */
+export type WritingMode =
+  | 'horizontal-tb'
+  | 'vertical-rl'
+  | 'vertical-lr'
+  | 'sideways-rl'
+  | 'sideways-lr';
+
+/**
+ * The writing mode and text direction of a container
+ */
+export interface WritingFlow {
+  direction: 'ltr' | 'rtl';
+  writingMode: WritingMode;
+}
+
+/**
+ * A writing flow, or a function that reads it only when a logical key has to be resolved
+ */
+export type FlowSource = WritingFlow | (() => WritingFlow);
+
+/**
+ * Left-to-right horizontal text, the flow of an unstyled document
+ */
+export const DEFAULT_FLOW: WritingFlow = { direction: 'ltr', writingMode: 'horizontal-tb' };
+
+const LOGICAL_DIRECTIONS: LogicalDirection[] = [
+  'inline-start',
+  'inline-end',
+  'block-start',
+  'block-end',
+];
+
+const SIDE_DIRECTIONS: Record<PhysicalSide, Direction> = {
+  left: 'ArrowLeft',
+  right: 'ArrowRight',
+  top: 'ArrowUp',
+  bottom: 'ArrowDown',
+};
+
+const OPPOSITE_SIDES: Record<PhysicalSide, PhysicalSide> = {
+  left: 'right',
+  right: 'left',
+  top: 'bottom',
+  bottom: 'top',
+};
+
+/**
+ * Checks whether a direction is logical
+ */
+export function isLogicalDirection(direction: NavigationDirection): direction is LogicalDirection {
+  return !direction.startsWith('Arrow');
+}
+
+/**
+ * Physical side that navigation in a direction moves towards
+ */
+export function getDirectionSide(direction: Direction): PhysicalSide {
+  return (Object.keys(SIDE_DIRECTIONS) as PhysicalSide[]).find(
+    (side) => SIDE_DIRECTIONS[side] === direction
+  ) as PhysicalSide;
+}
+
+/**
+ * Arrow direction that moves towards a physical side
+ */
+export function getSideDirection(side: PhysicalSide): Direction {
+  return SIDE_DIRECTIONS[side];
+}
+
+/**
+ * Side opposite to a physical side
+ */
+export function getOppositeSide(side: PhysicalSide): PhysicalSide {
+  return OPPOSITE_SIDES[side];
+}
+
+/**
+ * Physical sides of the inline and block starts of a flow
+ */
+function getStartSides(flow: WritingFlow): { inline: PhysicalSide; block: PhysicalSide } {
+  const rtl = flow.direction === 'rtl';
+
+  switch (flow.writingMode) {
+    case 'vertical-rl':
+    case 'sideways-rl':
+      return { inline: rtl ? 'bottom' : 'top', block: 'right' };
+    case 'vertical-lr':
+      return { inline: rtl ? 'bottom' : 'top', block: 'left' };
+    case 'sideways-lr':
+      // Text runs bottom to top
+      return { inline: rtl ? 'top' : 'bottom', block: 'left' };
+    default:
+      return { inline: rtl ? 'right' : 'left', block: 'top' };
+  }
+}
+
+/**
+ * Physical side of a logical side in a flow
+ */
+export function getLogicalSide(direction: LogicalDirection, flow: WritingFlow): PhysicalSide {
+  const starts = getStartSides(flow);
+
+  switch (direction) {
+    case 'inline-start':
+      return starts.inline;
+    case 'inline-end':
+      return OPPOSITE_SIDES[starts.inline];
+    case 'block-start':
+      return starts.block;
+    default:
+      return OPPOSITE_SIDES[starts.block];
+  }
+}
+
+/**
+ * Resolves a direction to the arrow direction it means in a flow; arrows are returned as is
+ */
+export function resolveDirection(
+  direction: NavigationDirection,
+  flow: WritingFlow = DEFAULT_FLOW
+): Direction {
+  return isLogicalDirection(direction)
+    ? SIDE_DIRECTIONS[getLogicalSide(direction, flow)]
+    : direction;
+}
+
+/**
+ * Logical direction that an arrow direction corresponds to in a flow
+ */
+export function toLogicalDirection(
+  direction: Direction,
+  flow: WritingFlow = DEFAULT_FLOW
+): LogicalDirection {
+  return LOGICAL_DIRECTIONS.find(
+    (item) => resolveDirection(item, flow) === direction
+  ) as LogicalDirection;
+}
+
+/**
+ * Looks up the value of an arrow direction in a per-direction record whose keys may be
+ * physical or logical. The arrow key wins over the logical one, and the flow is only
+ * resolved when the record has logical keys
+ */
+export function getDirectionalValue<V>(
+  record: Partial<Record<NavigationDirection, V>> | undefined,
+  direction: Direction,
+  flow: FlowSource = DEFAULT_FLOW
+): V | undefined {
+  if (!record) {
+    return undefined;
+  }
+  if (record[direction] !== undefined || !LOGICAL_DIRECTIONS.some((key) => key in record)) {
+    return record[direction];
+  }
+  return record[toLogicalDirection(direction, typeof flow === 'function' ? flow() : flow)];
+}
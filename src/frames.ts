@@ -0,0 +1,96 @@
+/**
+ * Same-origin iframe hand-off: the engine of the parent page and the engine inside
+ * a frame pass navigation back and forth with postMessage.
+ */
+
+import type { Direction } from './flow';
+import type { RectItem } from './edges';
+import { Rect, ScoringStrategy, nearestEdgeStrategy } from './strategies';
+
+/**
+ * Options for the engine running inside a frame
+ */
+export interface FrameOptions {
+  /** Window of the parent engine (default: window.parent) */
+  parent?: Window;
+  /** Origin of the parent page (default: the frame's own origin) */
+  origin?: string;
+}
+
+/**
+ * Sent by the parent when focus moves into a frame
+ */
+export interface FrameEnterMessage {
+  type: 'focus-engine:enter';
+  /** Direction of the move, or null for non-directional moves */
+  direction: Direction | null;
+  /** Rect of the element focus comes from, in the frame's viewport coordinates */
+  rect: Rect | null;
+}
+
+/**
+ * Sent by the frame when navigation reaches its edge
+ */
+export interface FrameExitMessage {
+  type: 'focus-engine:exit';
+  direction: Direction;
+  /** Rect of the element focus leaves from, in the frame's viewport coordinates */
+  rect: Rect;
+}
+
+export type FrameMessage = FrameEnterMessage | FrameExitMessage;
+
+/**
+ * Checks whether message data belongs to the frame protocol
+ */
+export function isFrameMessage(data: unknown): data is FrameMessage {
+  const type = (data as FrameMessage | null)?.type;
+  return type === 'focus-engine:enter' || type === 'focus-engine:exit';
+}
+
+/**
+ * Copies a rect into a plain object that survives postMessage, optionally shifted
+ */
+export function toPlainRect(rect: Rect, dx: number = 0, dy: number = 0): Rect {
+  return {
+    top: rect.top + dy,
+    left: rect.left + dx,
+    right: rect.right + dx,
+    bottom: rect.bottom + dy,
+    width: rect.width,
+    height: rect.height,
+  };
+}
+
+/**
+ * Finds the best item to continue a move that comes from another document.
+ * Falls back to the nearest edge when the strategy rejects every item,
+ * since the rect from the other side is often not aligned with this layout
+ * @param fromRect Rect of the element focus comes from, in this document's coordinates
+ * @param candidates Items with their rects
+ * @param direction Navigation direction
+ * @param strategy Scoring strategy
+ */
+export function findRectTarget<T>(
+  fromRect: Rect,
+  candidates: RectItem<T>[],
+  direction: Direction,
+  strategy: ScoringStrategy
+): T | null {
+  const pick = (score: ScoringStrategy): T | null => {
+    let best: T | null = null;
+    let bestScore = Infinity;
+
+    candidates.forEach((candidate) => {
+      const value = score(fromRect, candidate.rect, direction);
+      if (value !== null && value < bestScore) {
+        bestScore = value;
+        best = candidate.item;
+      }
+    });
+
+    return best;
+  };
+
+  return pick(strategy) ?? pick(nearestEdgeStrategy);
+}
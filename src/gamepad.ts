@@ -0,0 +1,249 @@
+/**
+ * Gamepad API input adapter for FocusEngine.
+ * Polls navigator.getGamepads() while a gamepad is connected and turns the D-pad,
+ * the analog sticks and the face buttons into engine actions, with auto-repeat for directions.
+ */
+
+import type { InputAction } from './keymaps';
+import { RepeatThrottle } from './repeat';
+
+/**
+ * Maps gamepad button indexes to engine actions
+ */
+export type GamepadMapping = Partial<Record<number, InputAction>>;
+
+/**
+ * Button layout of the W3C "standard" gamepad mapping (Xbox / PlayStation controllers):
+ * D-pad for directions, A / Cross to select, B / Circle to go back
+ */
+export const STANDARD_GAMEPAD_MAPPING: GamepadMapping = {
+  0: 'Enter',
+  1: 'Back',
+  12: 'ArrowUp',
+  13: 'ArrowDown',
+  14: 'ArrowLeft',
+  15: 'ArrowRight',
+};
+
+const ACTIONS: InputAction[] = [
+  'ArrowUp',
+  'ArrowDown',
+  'ArrowLeft',
+  'ArrowRight',
+  'inline-start',
+  'inline-end',
+  'block-start',
+  'block-end',
+  'Enter',
+  'Back',
+];
+
+/**
+ * Options for the gamepad adapter
+ */
+export interface GamepadOptions {
+  /** Button mapping (default: STANDARD_GAMEPAD_MAPPING) */
+  mapping?: GamepadMapping;
+  /** Use the analog sticks for directions (default: true) */
+  sticks?: boolean;
+  /** Stick deflection ignored around the center, from 0 to 1 (default: 0.5) */
+  deadzone?: number;
+  /** Delay before a held direction starts repeating, in milliseconds (default: 400) */
+  repeatDelay?: number;
+  /** First repeat interval, in milliseconds (default: 200) */
+  repeatInterval?: number;
+  /** Shortest repeat interval reached by acceleration, in milliseconds (default: 50) */
+  minRepeatInterval?: number;
+  /** Factor applied to the repeat interval after each repeat (default: 0.8) */
+  acceleration?: number;
+  /** Polling interval, in milliseconds (default: every animation frame) */
+  pollInterval?: number;
+}
+
+/**
+ * Polls connected gamepads and reports engine actions
+ */
+export class GamepadAdapter {
+  private mapping: GamepadMapping;
+  private sticks: boolean;
+  private deadzone: number;
+  private pollInterval: number | undefined;
+  private started = false;
+  private connected = new Set<number>();
+  private frame: number | null = null;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private repeat: RepeatThrottle<InputAction>;
+
+  /**
+   * @param onAction Called for every press and repeat of an action, with `repeat` set for repeats
+   * @param options Adapter options
+   */
+  constructor(
+    private onAction: (action: InputAction, repeat: boolean) => void,
+    options: GamepadOptions = {}
+  ) {
+    this.mapping = options.mapping || STANDARD_GAMEPAD_MAPPING;
+    this.sticks = options.sticks ?? true;
+    this.deadzone = options.deadzone ?? 0.5;
+    this.repeat = new RepeatThrottle({
+      delay: options.repeatDelay,
+      interval: options.repeatInterval,
+      acceleration: options.acceleration,
+      minInterval: options.minRepeatInterval,
+    });
+    this.pollInterval = options.pollInterval;
+  }
+
+  /**
+   * Checks whether the Gamepad API is available
+   */
+  public static isSupported(): boolean {
+    return typeof navigator !== 'undefined' && typeof navigator.getGamepads === 'function';
+  }
+
+  /**
+   * Starts listening for gamepads. Polling runs only while at least one is connected
+   */
+  public start(): void {
+    if (this.started || !GamepadAdapter.isSupported()) return;
+    this.started = true;
+
+    window.addEventListener('gamepadconnected', this.handleConnected);
+    window.addEventListener('gamepaddisconnected', this.handleDisconnected);
+
+    // Gamepads connected before start do not fire gamepadconnected again
+    Array.from(navigator.getGamepads()).forEach((gamepad) => {
+      if (gamepad?.connected) {
+        this.connected.add(gamepad.index);
+      }
+    });
+    if (this.connected.size > 0) {
+      this.schedulePoll();
+    }
+  }
+
+  /**
+   * Stops listening and polling and forgets held buttons
+   */
+  public stop(): void {
+    if (this.started) {
+      window.removeEventListener('gamepadconnected', this.handleConnected);
+      window.removeEventListener('gamepaddisconnected', this.handleDisconnected);
+      this.started = false;
+    }
+    this.connected.clear();
+    this.cancelPoll();
+  }
+
+  private handleConnected = (event: Event): void => {
+    this.connected.add((event as GamepadEvent).gamepad.index);
+    this.schedulePoll();
+  };
+
+  private handleDisconnected = (event: Event): void => {
+    this.connected.delete((event as GamepadEvent).gamepad.index);
+    if (this.connected.size === 0) {
+      this.cancelPoll();
+    }
+  };
+
+  /**
+   * Schedules the next poll on the next animation frame, or after pollInterval
+   */
+  private schedulePoll(): void {
+    if (this.frame !== null || this.timer) return;
+
+    if (this.pollInterval === undefined && typeof requestAnimationFrame === 'function') {
+      this.frame = requestAnimationFrame(this.tick);
+    } else {
+      this.timer = setTimeout(this.tick, this.pollInterval ?? 16);
+    }
+  }
+
+  /**
+   * Cancels the scheduled poll and forgets held buttons
+   */
+  private cancelPoll(): void {
+    if (this.frame !== null) {
+      cancelAnimationFrame(this.frame);
+      this.frame = null;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    this.repeat.clear();
+  }
+
+  private tick = (): void => {
+    this.frame = null;
+    this.timer = null;
+    this.poll();
+
+    // An action may have stopped the adapter
+    if (this.connected.size > 0) {
+      this.schedulePoll();
+    }
+  };
+
+  /**
+   * Reads all gamepads and fires presses and repeats
+   */
+  private poll(): void {
+    const pressed = this.getPressedActions();
+
+    ACTIONS.forEach((action) => {
+      if (!pressed.has(action)) {
+        this.repeat.release(action);
+        return;
+      }
+
+      if (!this.repeat.isHeld(action)) {
+        this.repeat.press(action);
+        this.onAction(action, false);
+        return;
+      }
+
+      // Only directions repeat, Enter and Back fire once per press
+      if (action !== 'Enter' && action !== 'Back' && this.repeat.tryRepeat(action)) {
+        this.onAction(action, true);
+      }
+    });
+  }
+
+  /**
+   * Collects the actions pressed on any connected gamepad
+   */
+  private getPressedActions(): Set<InputAction> {
+    const pressed = new Set<InputAction>();
+
+    Array.from(navigator.getGamepads()).forEach((gamepad) => {
+      if (!gamepad || !gamepad.connected) return;
+
+      gamepad.buttons.forEach((button, index) => {
+        const action = this.mapping[index];
+        if (action && button.pressed) {
+          pressed.add(action);
+        }
+      });
+
+      if (this.sticks) {
+        // Left stick (axes 0/1) and right stick (axes 2/3)
+        for (let axis = 0; axis + 1 < Math.min(gamepad.axes.length, 4); axis += 2) {
+          const x = gamepad.axes[axis];
+          const y = gamepad.axes[axis + 1];
+          if (Math.abs(x) < this.deadzone && Math.abs(y) < this.deadzone) continue;
+
+          // The dominant axis wins, so diagonals do not fire two directions
+          if (Math.abs(x) >= Math.abs(y)) {
+            pressed.add(x < 0 ? 'ArrowLeft' : 'ArrowRight');
+          } else {
+            pressed.add(y < 0 ? 'ArrowUp' : 'ArrowDown');
+          }
+        }
+      }
+    });
+
+    return pressed;
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Geometry cache: element rects and visibility are read once and reused until
+ * the layout may have changed (resize, scroll, transitions or DOM mutations),
+ * so a keypress does not force a layout read per candidate.
+ */
+
+import { containsDeep } from './shadow';
+import { DEFAULT_CELL_SIZE, SpatialIndex } from './spatial';
+
+/**
+ * Options for the geometry cache
+ */
+export interface GeometryCacheOptions {
+  /** Cell size of the spatial index in pixels (default: 200) */
+  cellSize?: number;
+  /** Classes whose toggling does not move elements, e.g. the engine's focus class */
+  ignoredClasses?: string[];
+}
+
+/**
+ * Caches rects, visibility and a spatial index of focusable elements
+ */
+export class GeometryCache {
+  private rects: Map<HTMLElement, DOMRect> = new Map();
+  private visibility: Map<HTMLElement, boolean> = new Map();
+  private styleVisibility: Map<HTMLElement, boolean> = new Map();
+  private index: SpatialIndex<HTMLElement> | null = null;
+  // Indexed elements whose geometry was forgotten, moved in the index on its next use
+  private stale: Set<HTMLElement> = new Set();
+  private cellSize: number;
+  private ignoredClasses: string[];
+  private tracked: Set<HTMLElement> = new Set();
+  private resizeObserver: ResizeObserver | null = null;
+  private mutationObserver: MutationObserver | null = null;
+
+  constructor(options: GeometryCacheOptions = {}) {
+    this.cellSize = options.cellSize ?? DEFAULT_CELL_SIZE;
+    this.ignoredClasses = options.ignoredClasses || [];
+  }
+
+  /**
+   * Gets the rect of an element, reading it from the layout only once
+   */
+  public getRect(element: HTMLElement): DOMRect {
+    let rect = this.rects.get(element);
+    if (!rect) {
+      rect = element.getBoundingClientRect();
+      this.rects.set(element, rect);
+    }
+    return rect;
+  }
+
+  /**
+   * Checks whether an element is rendered (has an offsetParent)
+   */
+  public isVisible(element: HTMLElement): boolean {
+    let visible = this.visibility.get(element);
+    if (visible === undefined) {
+      visible = element.offsetParent !== null;
+      this.visibility.set(element, visible);
+    }
+    return visible;
+  }
+
+  /**
+   * Checks whether an element is shown according to its computed display, visibility and opacity
+   */
+  public isShownByStyle(element: HTMLElement): boolean {
+    let shown = this.styleVisibility.get(element);
+    if (shown === undefined) {
+      const style = window.getComputedStyle(element);
+      shown = style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+      this.styleVisibility.set(element, shown);
+    }
+    return shown;
+  }
+
+  /**
+   * Gets the spatial index of the visible elements, building it on first use and
+   * moving only the elements whose geometry was forgotten since
+   * @param getElements Returns the elements to index
+   */
+  public getIndex(getElements: () => HTMLElement[]): SpatialIndex<HTMLElement> {
+    if (!this.index) {
+      const items = getElements()
+        .filter((element) => this.isVisible(element))
+        .map((item) => ({ item, rect: this.getRect(item) }));
+      this.index = new SpatialIndex(items, this.cellSize);
+    } else if (this.stale.size > 0) {
+      const elements = getElements();
+      this.stale.forEach((element) => {
+        const order = elements.indexOf(element);
+        if (order !== -1 && this.isVisible(element)) {
+          this.index?.update(element, this.getRect(element), order);
+        } else {
+          this.index?.remove(element);
+        }
+      });
+    }
+    this.stale.clear();
+
+    return this.index;
+  }
+
+  /**
+   * Forgets the geometry of one element, or of all elements
+   */
+  public invalidate(element?: HTMLElement): void {
+    if (element) {
+      this.rects.delete(element);
+      this.visibility.delete(element);
+      this.styleVisibility.delete(element);
+      if (this.index) {
+        this.stale.add(element);
+      }
+      return;
+    }
+
+    this.index = null;
+    this.stale.clear();
+    this.rects.clear();
+    this.visibility.clear();
+    this.styleVisibility.clear();
+  }
+
+  /**
+   * Forgets all geometry if an element is no longer where the cache thinks it is,
+   * e.g. after focusing it scrolled its container
+   */
+  public verify(element: HTMLElement): void {
+    const cached = this.rects.get(element);
+    if (!cached) return;
+
+    const rect = element.getBoundingClientRect();
+    if (rect.top !== cached.top || rect.left !== cached.left) {
+      this.invalidate();
+    }
+  }
+
+  /**
+   * Starts watching the layout for changes that invalidate the cache
+   * @param node The node whose subtree is watched for mutations
+   */
+  public connect(node: Node): void {
+    window.addEventListener('resize', this.handleLayoutChange);
+    // Scroll and transition events do not bubble, so they are caught on the way down
+    window.addEventListener('scroll', this.handleScroll, true);
+    window.addEventListener('transitionend', this.handleLayoutChange, true);
+    window.addEventListener('animationend', this.handleLayoutChange, true);
+
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(this.handleLayoutChange);
+      this.tracked.forEach((element) => this.resizeObserver?.observe(element));
+    }
+
+    if (typeof MutationObserver !== 'undefined') {
+      this.mutationObserver = new MutationObserver(this.handleMutations);
+      this.mutationObserver.observe(node, {
+        childList: true,
+        subtree: true,
+        attributes: true,
+        attributeOldValue: true,
+        characterData: true,
+      });
+    }
+  }
+
+  /**
+   * Sets the elements whose size changes invalidate the cache
+   */
+  public track(elements: HTMLElement[]): void {
+    const next = new Set(elements);
+
+    this.tracked.forEach((element) => {
+      if (!next.has(element)) {
+        this.resizeObserver?.unobserve(element);
+      }
+    });
+    next.forEach((element) => {
+      if (!this.tracked.has(element)) {
+        this.resizeObserver?.observe(element);
+      }
+    });
+
+    this.tracked = next;
+    this.invalidate();
+  }
+
+  /**
+   * Stops watching the layout and clears the cache
+   */
+  public disconnect(): void {
+    window.removeEventListener('resize', this.handleLayoutChange);
+    window.removeEventListener('scroll', this.handleScroll, true);
+    window.removeEventListener('transitionend', this.handleLayoutChange, true);
+    window.removeEventListener('animationend', this.handleLayoutChange, true);
+    this.resizeObserver?.disconnect();
+    this.resizeObserver = null;
+    this.mutationObserver?.disconnect();
+    this.mutationObserver = null;
+    this.tracked.clear();
+    this.invalidate();
+  }
+
+  private handleLayoutChange = (): void => {
+    this.invalidate();
+  };
+
+  /**
+   * Scrolling a container only moves what is inside it; scrolling the page moves everything
+   */
+  private handleScroll = (event: Event): void => {
+    const container = event.target;
+    if (!(container instanceof Element) || container === document.documentElement) {
+      this.invalidate();
+      return;
+    }
+
+    Array.from(this.rects.keys()).forEach((element) => {
+      if (element !== container && containsDeep(container, element)) {
+        this.invalidate(element);
+      }
+    });
+  };
+
+  /**
+   * Checks whether a class mutation only toggled classes that do not move elements
+   */
+  private isIgnoredClassChange(record: MutationRecord): boolean {
+    const withoutIgnored = (value: string | null): string =>
+      (value || '')
+        .split(/\s+/)
+        .filter((name) => name && !this.ignoredClasses.includes(name))
+        .sort()
+        .join(' ');
+
+    return (
+      withoutIgnored(record.oldValue) ===
+      withoutIgnored((record.target as Element).getAttribute('class'))
+    );
+  }
+
+  /**
+   * A changed attribute of a tracked element only affects that element, and toggling an
+   * ignored class affects nothing; any other mutation may move everything
+   */
+  private handleMutations = (records: MutationRecord[]): void => {
+    for (const record of records) {
+      const target = record.target;
+      if (record.attributeName === 'class' && this.isIgnoredClassChange(record)) {
+        continue;
+      }
+      if (
+        record.type === 'attributes' &&
+        target instanceof HTMLElement &&
+        this.tracked.has(target)
+      ) {
+        this.invalidate(target);
+      } else {
+        this.invalidate();
+        return;
+      }
+    }
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Grid mode: items of a container are arranged into logical rows and columns once,
+ * and navigation moves by index instead of by score, so ragged rows never send
+ * focus diagonally.
+ */
+
+import type { Direction } from './flow';
+import type { RectItem } from './edges';
+
+/**
+ * Attribute that puts a container into grid mode
+ */
+export const GRID_ATTR = 'data-focus-grid';
+
+/**
+ * Logical position of an item in a grid, zero-based
+ */
+export interface GridPosition {
+  row: number;
+  col: number;
+}
+
+/**
+ * Arranges items into rows, top to bottom, each sorted left to right.
+ * An item joins a row when its vertical center lies within the row's first item
+ * @param items Items with their rects
+ */
+export function buildGridLayout<T>(items: RectItem<T>[]): T[][] {
+  const sorted = [...items].sort((a, b) => a.rect.top - b.rect.top || a.rect.left - b.rect.left);
+  const rows: RectItem<T>[][] = [];
+
+  sorted.forEach((item) => {
+    const row = rows[rows.length - 1];
+    const center = item.rect.top + item.rect.height / 2;
+
+    if (row && center >= row[0].rect.top && center <= row[0].rect.bottom) {
+      row.push(item);
+    } else {
+      rows.push([item]);
+    }
+  });
+
+  return rows.map((row) =>
+    row.sort((a, b) => a.rect.left - b.rect.left).map((candidate) => candidate.item)
+  );
+}
+
+/**
+ * Finds the position of an item in a layout
+ */
+export function findGridPosition<T>(layout: T[][], item: T): GridPosition | null {
+  for (let row = 0; row < layout.length; row++) {
+    const col = layout[row].indexOf(item);
+    if (col !== -1) {
+      return { row, col };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Finds the item next to a position. Moving between rows keeps the column,
+ * or takes the nearest one when the target row is shorter
+ * @returns The item, or null at the edge of the grid
+ */
+export function findGridTarget<T>(
+  layout: T[][],
+  position: GridPosition,
+  direction: Direction
+): T | null {
+  const { row, col } = position;
+
+  switch (direction) {
+    case 'ArrowLeft':
+      return layout[row][col - 1] ?? null;
+    case 'ArrowRight':
+      return layout[row][col + 1] ?? null;
+    case 'ArrowUp':
+    case 'ArrowDown': {
+      const target = layout[direction === 'ArrowUp' ? row - 1 : row + 1];
+      return target ? target[Math.min(col, target.length - 1)] : null;
+    }
+  }
+}
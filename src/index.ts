@@ -4,46 +4,315 @@
  * simulating a spatial relationship based on element positions.
  */
 
-/**
- * Represents a point with x and y coordinates
- */
-export interface Point {
-  x: number;
-  y: number;
-}
+import {
+  Direction,
+  FocusTree,
+  ParentPosition,
+  SectionRules,
+  findBestCandidate,
+  findEdgeTarget,
+  findNextInSections,
+  getChildrenDirection,
+  getParentDirection,
+  isLeaveBlocked,
+  pickChild,
+  resolveEdgeBehavior,
+  resolveParentPosition,
+  resolveSectionEntry,
+  shouldEnterChildren,
+  shouldReturnToParent,
+} from './core';
+import { EventEmitter, EventHandler } from './emitter';
+import { EdgeBehaviorConfig } from './edges';
+import {
+  DEFAULT_FLOW,
+  LogicalDirection,
+  NavigationDirection,
+  PhysicalSide,
+  WritingFlow,
+  WritingMode,
+  isLogicalDirection,
+  resolveDirection,
+  toLogicalDirection,
+} from './flow';
+import { FrameMessage, FrameOptions, findRectTarget, isFrameMessage, toPlainRect } from './frames';
+import { GamepadAdapter, GamepadOptions } from './gamepad';
+import { GeometryCache, GeometryCacheOptions } from './geometry';
+import { GRID_ATTR, GridPosition, buildGridLayout, findGridPosition, findGridTarget } from './grid';
+import { DEFAULT_KEY_MAP, InputAction, KeyMap, isEditingKey, resolveKeyAction } from './keymaps';
+import { RepeatOptions, RepeatThrottle } from './repeat';
+import { ScrollManager, ScrollOptions } from './scroll';
+import {
+  ShadowDomOptions,
+  containsDeep,
+  getComposedParent,
+  getDeepActiveElement,
+  getShadowRootsDeep,
+  querySelectorAllDeep,
+} from './shadow';
+import {
+  Rect,
+  ScoringStrategy,
+  ScoringStrategyName,
+  getScoreBound,
+  resolveScoringStrategy,
+} from './strategies';
+import {
+  VIRTUAL_INDEX_ATTR,
+  VirtualCollectionProvider,
+  findVirtualCandidate,
+  getVirtualItemElement,
+  reachesBeyond,
+} from './virtual';
+
+export { FocusCoordinator } from './coordinator';
+export type { CoordinatedEngine } from './coordinator';
+export type {
+  Direction,
+  ParentPosition,
+  Point,
+  SectionEnterRule,
+  SectionLeaveRule,
+  SectionRules,
+} from './core';
+export type { EdgeBehavior, EdgeBehaviorConfig, EdgeHandler } from './edges';
+export type { EventHandler } from './emitter';
+export { resolveDirection } from './flow';
+export type {
+  LogicalDirection,
+  NavigationDirection,
+  PhysicalSide,
+  WritingFlow,
+  WritingMode,
+} from './flow';
+export { isFrameMessage } from './frames';
+export type { FrameEnterMessage, FrameExitMessage, FrameMessage, FrameOptions } from './frames';
+export { GamepadAdapter, STANDARD_GAMEPAD_MAPPING } from './gamepad';
+export type { GamepadMapping, GamepadOptions } from './gamepad';
+export type { GeometryCacheOptions } from './geometry';
+export { GRID_ATTR } from './grid';
+export type { GridPosition } from './grid';
+
+export { DEFAULT_KEY_MAP, KEY_MAPS, mergeKeyMaps, resolveKeyAction } from './keymaps';
+export type { InputAction, KeyMap, KeyMapPreset } from './keymaps';
+export type { RepeatOptions } from './repeat';
+export { SCROLL_MODE_ATTR, SCROLL_PADDING_ATTR } from './scroll';
+export type { ScrollMode, ScrollOptions } from './scroll';
+export type { ShadowDomOptions } from './shadow';
+export {
+  SCORING_STRATEGIES,
+  defaultStrategy,
+  nearestEdgeStrategy,
+  strictStrategy,
+  w3cStrategy,
+} from './strategies';
+export type { Rect, ScoringStrategy, ScoringStrategyName } from './strategies';
+export { VIRTUAL_INDEX_ATTR } from './virtual';
+export type { VirtualCollectionProvider } from './virtual';
 
 /**
- * Direction types for navigation
+ * The input device the user is currently driving focus with
  */
-export type Direction = 'ArrowUp' | 'ArrowDown' | 'ArrowLeft' | 'ArrowRight';
+export type InputModality = 'key' | 'pointer';
 
 /**
- * Type for parent position
+ * A named group of focusable elements with its own navigation rules
  */
-export type ParentPosition = 'left' | 'right';
+export interface FocusSection extends SectionRules<HTMLElement> {
+  /** CSS selector of the section container */
+  selector: string;
+  /** CSS selector of the element used by the 'default' enter rule */
+  defaultElement?: string;
+}
 
 /**
  * Options for configuring the FocusEngine
  */
 export interface FocusEngineOptions {
+  /** Element or shadow root that scopes all queries, listeners and classes (default: document) */
+  root?: HTMLElement | ShadowRoot;
   /** CSS selector for focusable elements */
   selector?: string;
+  /** Find focusable elements inside open shadow roots (default: false) */
+  shadowDom?: boolean | ShadowDomOptions;
   /** Attribute to use for tabindex */
   tabIndexAttr?: string | number;
   /** Auto-initialize the engine on creation */
   autoInit?: boolean;
   /** Callback function when an element is selected (Enter key is pressed) */
   onSelect?: (element: HTMLElement) => void;
+  /** Callback function when Enter is held for longPressDelay; short presses still call onSelect */
+  onLongSelect?: (element: HTMLElement) => void;
+  /** Callback function when Back is held for longPressDelay; short presses still go back */
+  onLongBack?: (element: HTMLElement) => void;
+  /** How long Enter or Back must be held to count as a long press, in milliseconds (default: 500) */
+  longPressDelay?: number;
+  /** Callback function when Back has nowhere to go: the history is empty and there is no parent */
+  onBackUnhandled?: (element: HTMLElement | null) => void;
+  /** Callback function when focus has rested on an element for dwellDelay */
+  onDwell?: (element: HTMLElement, ms: number) => void;
+  /** How long focus must rest on an element to count as a dwell, in milliseconds (default: 600) */
+  dwellDelay?: number;
+  /** Callback function on dwell with the likely next element in each direction, for prefetching */
+  onPrefetch?: (element: HTMLElement, neighbours: Record<Direction, HTMLElement | null>) => void;
+  /** Maximum number of elements kept in the focus history (default: 20) */
+  historySize?: number;
+  /** Let goBack() climb to the parent before walking the focus history (default: false) */
+  backToParentFirst?: boolean;
+  /** Attribute holding the stable key of an element for saveState() (default: 'data-focus-key') */
+  keyAttr?: string;
+  /** Resolves the stable key of an element for saveState(), instead of keyAttr */
+  keyResolver?: (element: HTMLElement) => string | null;
   /** CSS class name to apply to the focused element */
   focusClassName?: string;
   /** The data attribute name used to indicate a parent element */
   parentAttr?: string;
   /** The data attribute name used to connect child elements to their parent */
   childAttr?: string;
-  /** Position of parents relative to their children (default: 'left') */
+  /** Position of parents relative to their children, logical ones per group (default: 'left') */
   parentPosition?: ParentPosition;
+  /** Attribute overriding parentPosition per parent (default: 'data-focus-parent-position') */
+  parentPositionAttr?: string;
+  /** Listen to keydown and translate mapped keys into navigation (default: false) */
+  keyboard?: boolean;
+  /** Keys for each input action (default: desktop, Tizen, webOS and Android TV keys combined) */
+  keyMap?: KeyMap;
+  /** Throttling of held keys, or false to pass every hardware repeat through */
+  keyRepeat?: RepeatOptions | false;
+  /** Poll connected gamepads and translate their buttons and sticks into navigation (default: false) */
+  gamepad?: boolean | GamepadOptions;
+  /** Let hover move focus and clicks select, for mice and LG Magic Remote pointers (default: false) */
+  pointer?: boolean;
+  /** CSS class set on the root element while a pointer is in use (default: 'focus-engine-pointer') */
+  pointerClassName?: string;
+  /** Track DOM changes with a MutationObserver instead of manual updateFocusableElements() calls */
+  observe?: boolean;
+  /** Named sections with their own enter and leave rules */
+  sections?: FocusSection[];
+  /** How candidates are ranked: a built-in strategy name or a custom function (default: 'default') */
+  scoring?: ScoringStrategy | ScoringStrategyName;
+  /** What happens when there is no candidate in a direction (default: 'stop') */
+  edgeBehavior?: EdgeBehaviorConfig;
+  /** Edge behaviour per parent group, keyed by parent id */
+  groupEdgeBehavior?: Record<string, EdgeBehaviorConfig>;
+  /** Let the engine scroll focused elements into view instead of the browser (default: false) */
+  scroll?: boolean | ScrollOptions;
+  /** Cache rects and visibility until the layout changes, and index them spatially (default: false) */
+  geometryCache?: boolean | GeometryCacheOptions;
+  /** Run inside an iframe: take over navigation from the parent engine and hand it back at edges */
+  frame?: boolean | FrameOptions;
+}
+
+/**
+ * An element in the focus history, with the section and group it belonged to
+ */
+export interface FocusHistoryEntry {
+  element: HTMLElement;
+  /** Id of the section the element belonged to */
+  section: string | null;
+  /** Id of the parent group the element was a child of */
+  group: string | null;
+}
+
+/**
+ * JSON-serializable focus state, with elements referenced by their focus keys
+ */
+export interface FocusState {
+  /** Key of the focused element */
+  active: string | null;
+  /** Key of the last focused child of each parent, keyed by parent id */
+  parents: Record<string, string>;
+  /** Key of the last focused element of each section, keyed by section id */
+  sections: Record<string, string>;
+}
+
+/**
+ * Payload of the cancelable `willMove` event
+ */
+export interface WillMoveEvent {
+  /** Element that currently has focus */
+  source: HTMLElement | null;
+  /** Element that is about to receive focus */
+  target: HTMLElement;
+  /** Navigation direction, or null for moves that are not directional (back, enter, initial) */
+  direction: Direction | null;
+  /** Whether a handler has canceled the move */
+  defaultPrevented: boolean;
+  /** Cancels the move */
+  preventDefault(): void;
 }
 
+/**
+ * Events emitted by FocusEngine, keyed by event name
+ */
+export interface FocusEngineEvents {
+  /** Focus is about to move; call preventDefault() to keep it where it is */
+  willMove: WillMoveEvent;
+  /** An element received focus */
+  focus: { element: HTMLElement; previous: HTMLElement | null };
+  /** An element lost focus */
+  blur: { element: HTMLElement; next: HTMLElement };
+  /** An element was selected (Enter) */
+  select: { element: HTMLElement };
+  /** Focus went back to a parent or to an element from the focus history */
+  back: { from: HTMLElement; to: HTMLElement };
+  /** Focus stays because there is no target in the requested direction */
+  edgeReached: { element: HTMLElement; direction: Direction };
+  /** Focus entered the children of a parent */
+  enterGroup: { parentId: string; element: HTMLElement };
+  /** Focus left the children of a parent */
+  leaveGroup: { parentId: string; element: HTMLElement };
+  /** Focus has rested on an element for the dwell delay */
+  dwell: { element: HTMLElement; ms: number };
+  /** The user switched between keys and a pointer */
+  modalityChange: { modality: InputModality };
+  /** Focus moved to another row of a grid, or into a grid */
+  rowChange: { element: HTMLElement; grid: HTMLElement; row: number; previous: number | null };
+  /** Focus moved to another column of a grid, or into a grid */
+  columnChange: { element: HTMLElement; grid: HTMLElement; col: number; previous: number | null };
+}
+
+/**
+ * Attributes that override the navigation target of an element per direction
+ */
+const NAVIGATION_OVERRIDE_ATTRS: Record<Direction, string> = {
+  ArrowUp: 'data-focus-up',
+  ArrowDown: 'data-focus-down',
+  ArrowLeft: 'data-focus-left',
+  ArrowRight: 'data-focus-right',
+};
+
+/**
+ * Attributes that override the navigation target of an element per logical direction
+ */
+const LOGICAL_OVERRIDE_ATTRS: Record<LogicalDirection, string> = {
+  'inline-start': 'data-focus-inline-start',
+  'inline-end': 'data-focus-inline-end',
+  'block-start': 'data-focus-block-start',
+  'block-end': 'data-focus-block-end',
+};
+
+/**
+ * Values accepted by the parent position attribute
+ */
+const PARENT_POSITIONS: ParentPosition[] = ['left', 'right', 'top', 'bottom', 'start', 'end'];
+
+/**
+ * Writing modes the engine understands, as reported by computed styles
+ */
+const WRITING_MODES: WritingMode[] = [
+  'horizontal-tb',
+  'vertical-rl',
+  'vertical-lr',
+  'sideways-rl',
+  'sideways-lr',
+];
+
+/**
+ * Key events an engine has acted on, so engines listening on the document skip them
+ */
+const handledKeyEvents = new WeakSet<Event>();
+
 /**
  * FocusEngine class that handles spatial keyboard navigation
  */
@@ -60,7 +329,61 @@ export class FocusEngine {
   private parentAttr: string;
   private childAttr: string;
   private lastParentMap: Map<string, HTMLElement> = new Map();
+  private hierarchy: FocusTree<HTMLElement> | null = null;
+  private writingFlows: WeakMap<Node, WritingFlow> = new WeakMap();
   private parentPosition: ParentPosition;
+  private parentPositionAttr: string;
+  private keyboard: boolean;
+  private keyMap: KeyMap;
+  private keyRepeat: RepeatThrottle<InputAction> | null;
+  private onLongSelectCallback?: (element: HTMLElement) => void;
+  private onLongBackCallback?: (element: HTMLElement) => void;
+  private longPressDelay: number;
+  private onBackUnhandledCallback?: (element: HTMLElement | null) => void;
+  private onDwellCallback?: (element: HTMLElement, ms: number) => void;
+  private onPrefetchCallback?: (
+    element: HTMLElement,
+    neighbours: Record<Direction, HTMLElement | null>
+  ) => void;
+  private dwellDelay: number;
+  private dwellTimer: ReturnType<typeof setTimeout> | null = null;
+  private historySize: number;
+  private focusHistory: FocusHistoryEntry[] = [];
+  private navigatingBack: boolean = false;
+  private backToParentFirst: boolean;
+  private keyAttr: string;
+  private root: Document | HTMLElement | ShadowRoot;
+  private inputEnabled: boolean = true;
+  private shadowDepth: number;
+  private keyResolver?: (element: HTMLElement) => string | null;
+  private pendingRestore: (() => void) | null = null;
+  private pendingLongPress: {
+    action: InputAction;
+    timer: ReturnType<typeof setTimeout>;
+    fired: boolean;
+  } | null = null;
+  private pendingTransition: (() => void) | null = null;
+  private gamepad: GamepadAdapter | null;
+  private pointer: boolean;
+  private pointerClassName: string;
+  private inputModality: InputModality = 'key';
+  private observe: boolean;
+  private mutationObserver: MutationObserver | null = null;
+  private emitter: EventEmitter<FocusEngineEvents> = new EventEmitter();
+  private sections: FocusSection[];
+  private sectionMemory: Map<string, HTMLElement> = new Map();
+  private scoring: ScoringStrategy | ScoringStrategyName;
+  private edgeBehavior?: EdgeBehaviorConfig;
+  private groupEdgeBehavior: Record<string, EdgeBehaviorConfig>;
+  private scrollManager: ScrollManager | null;
+  private virtualCollections: Map<HTMLElement, VirtualCollectionProvider> = new Map();
+  private pendingMaterialization: (() => void) | null = null;
+  private frames: Map<HTMLIFrameElement, string> = new Map();
+  private geometry: GeometryCache | null;
+  private grids: Set<HTMLElement> = new Set();
+  private gridLayouts: Map<HTMLElement, HTMLElement[][]> = new Map();
+  private frameParent: { window: Window; origin: string } | null;
+  private layers: Array<{ container: HTMLElement; restoreTo: HTMLElement | null }> = [];
 
   /**
    * Current active element that has focus
@@ -72,13 +395,65 @@ export class FocusEngine {
    * @param options Configuration options
    */
   constructor(options: FocusEngineOptions = {}) {
+    this.root = options.root || document;
     this.selector = options.selector || '.focusable[tabindex="0"]';
+    this.shadowDepth = options.shadowDom
+      ? ((options.shadowDom === true ? {} : options.shadowDom).maxDepth ?? 3)
+      : 0;
     this.tabIndexAttr = options.tabIndexAttr ?? 0;
     this.onSelectCallback = options.onSelect;
     this.focusClassName = options.focusClassName || 'focus-engine-active';
     this.parentAttr = options.parentAttr || 'data-focus-parent';
     this.childAttr = options.childAttr || 'data-focus-child-of';
     this.parentPosition = options.parentPosition || 'left';
+    this.parentPositionAttr = options.parentPositionAttr || 'data-focus-parent-position';
+    this.keyboard = options.keyboard ?? false;
+    this.keyMap = options.keyMap || DEFAULT_KEY_MAP;
+    this.keyRepeat =
+      options.keyRepeat === false ? null : new RepeatThrottle(options.keyRepeat || {});
+    this.onLongSelectCallback = options.onLongSelect;
+    this.onLongBackCallback = options.onLongBack;
+    this.longPressDelay = options.longPressDelay ?? 500;
+    this.onBackUnhandledCallback = options.onBackUnhandled;
+    this.onDwellCallback = options.onDwell;
+    this.onPrefetchCallback = options.onPrefetch;
+    this.dwellDelay = options.dwellDelay ?? 600;
+    this.historySize = options.historySize ?? 20;
+    this.backToParentFirst = options.backToParentFirst ?? false;
+    this.keyAttr = options.keyAttr || 'data-focus-key';
+    this.keyResolver = options.keyResolver;
+    this.gamepad = options.gamepad
+      ? new GamepadAdapter(this.handleInputAction, options.gamepad === true ? {} : options.gamepad)
+      : null;
+    this.pointer = options.pointer ?? false;
+    this.pointerClassName = options.pointerClassName || 'focus-engine-pointer';
+    this.observe = options.observe ?? false;
+    this.sections = options.sections ? [...options.sections] : [];
+    this.scoring = options.scoring || 'default';
+    this.edgeBehavior = options.edgeBehavior;
+    this.groupEdgeBehavior = options.groupEdgeBehavior || {};
+    this.scrollManager = options.scroll
+      ? new ScrollManager(options.scroll === true ? {} : options.scroll)
+      : null;
+    const geometryCache = options.geometryCache === true ? {} : options.geometryCache;
+    this.geometry = geometryCache
+      ? new GeometryCache({
+          ...geometryCache,
+          // The engine's own class toggles do not move elements
+          ignoredClasses: [
+            this.focusClassName,
+            this.pointerClassName,
+            ...(geometryCache.ignoredClasses || []),
+          ],
+        })
+      : null;
+    const frame = options.frame === true ? {} : options.frame;
+    this.frameParent = frame
+      ? {
+          window: frame.parent || window.parent,
+          origin: frame.origin || window.location.origin,
+        }
+      : null;
 
     if (options.autoInit !== false) {
       // Delayed initialization for proper DOM handling
@@ -98,37 +473,68 @@ export class FocusEngine {
   public init(): void {
     if (this.initialized) return;
 
-    // If tabIndexAttr is specified, set the attribute for the corresponding elements
-    if (this.tabIndexAttr !== undefined) {
-      const elementsWithoutTabIndex = document.querySelectorAll('.focusable:not([tabindex])');
-      elementsWithoutTabIndex.forEach((el) => {
-        el.setAttribute('tabindex', String(this.tabIndexAttr));
-      });
-    }
+    this.applyTabIndex(this.root);
 
     this.updateFocusableElements();
 
-    // Call with a small delay for proper DOM rendering
+    // Call with a small delay for proper DOM rendering.
+    // An engine without input (another engine owns it) does not take focus
     setTimeout(() => {
-      this.setInitialFocus();
+      if (this.inputEnabled) {
+        this.setInitialFocus();
+      }
     }, 100);
 
     this.initialized = true;
 
+    if (this.keyboard) {
+      this.root.addEventListener('keydown', this.handleKeyDown as EventListener);
+      this.root.addEventListener('keyup', this.handleKeyUp as EventListener);
+      // A scoped engine also hears keys pressed while focus is on <body> or outside the root
+      const ownerDocument = this.getOwnerDocument();
+      if (ownerDocument !== this.root) {
+        ownerDocument.addEventListener('keydown', this.handleOuterKeyDown);
+        ownerDocument.addEventListener('keyup', this.handleOuterKeyUp);
+      }
+    }
+
+    this.gamepad?.start();
+    this.geometry?.connect(this.getObservedNode());
+
+    if (this.frameParent || this.frames.size > 0) {
+      window.addEventListener('message', this.handleFrameMessage);
+    }
+
+    if (this.pointer) {
+      this.root.addEventListener('mousemove', this.handlePointerMove as EventListener);
+      this.root.addEventListener('click', this.handlePointerClick as EventListener);
+      this.root.addEventListener('keydown', this.handleModalityKeyDown, true);
+    }
+
+    if (this.observe && typeof MutationObserver !== 'undefined') {
+      this.mutationObserver = new MutationObserver(this.handleMutations);
+      this.mutationObserver.observe(this.getObservedNode(), {
+        childList: true,
+        subtree: true,
+        attributeFilter: this.getObservedAttributes(),
+        attributeOldValue: true,
+      });
+      this.observeShadowRoots(this.root);
+    }
+
     // Принудительно переустановим фокус, если он не был установлен
     setTimeout(() => {
-      if (
-        !this.activeElement &&
-        (!document.activeElement || document.activeElement === document.body)
-      ) {
+      if (!this.inputEnabled) return;
+
+      const domActiveElement = this.getDomActiveElement();
+      if (!this.activeElement && !domActiveElement) {
         this.setInitialFocus();
       } else if (
         this.activeElement ||
-        (document.activeElement &&
-          this.focusableElements.includes(document.activeElement as HTMLElement))
+        (domActiveElement && this.focusableElements.includes(domActiveElement))
       ) {
         // If focus is already on one of our elements, apply the class
-        const elementToFocus = this.activeElement || (document.activeElement as HTMLElement);
+        const elementToFocus = (this.activeElement || domActiveElement) as HTMLElement;
         this.updateFocusClass(elementToFocus);
       }
     }, 300);
@@ -141,34 +547,296 @@ export class FocusEngine {
     // Remove all existing focus event listeners
     this.clearFocusEventListeners();
 
-    // Get all focusable elements matching the selector
-    this.focusableElements = Array.from(document.querySelectorAll(this.selector)) as HTMLElement[];
+    // Get all focusable elements matching the selector, and the registered frames
+    this.focusableElements = this.queryAll(this.root, this.selector);
+    this.frames.forEach((_origin, iframe) => {
+      if (!this.focusableElements.includes(iframe) && containsDeep(this.root, iframe)) {
+        this.focusableElements.push(iframe);
+      }
+    });
 
     // Update focus event listeners
-    this.focusableElements.forEach((el, index) => {
-      const handler = () => {
-        this.currentFocusIndex = index;
-        this.updateFocusClass(el);
+    this.focusableElements.forEach((el) => this.addFocusEventListener(el));
+
+    // Grid layouts, the hierarchy and cached geometry are computed again on the next use
+    this.gridLayouts.clear();
+    this.hierarchy = null;
+    this.writingFlows = new WeakMap();
+    this.geometry?.track(this.focusableElements);
+
+    // Build parent-child relationships on initialization/update
+    this.updateParentChildRelationships();
+  }
+
+  /**
+   * Checks whether an element is a navigation stop: it matches the selector or is a
+   * registered frame, whether or not the frame matches the selector
+   */
+  private isCandidate(element: HTMLElement): boolean {
+    return (
+      element.matches(this.selector) ||
+      (element instanceof HTMLIFrameElement && this.frames.has(element))
+    );
+  }
+
+  /**
+   * If tabIndexAttr is specified, sets the attribute on focusable elements that lack it
+   * @param root The node whose subtree should be fixed up
+   */
+  private applyTabIndex(root: ParentNode): void {
+    if (this.tabIndexAttr === undefined) return;
+
+    const elementsWithoutTabIndex: Element[] = this.queryAll(root, '.focusable:not([tabindex])');
+    if (root instanceof Element && root.matches('.focusable:not([tabindex])')) {
+      elementsWithoutTabIndex.push(root);
+    }
 
-        // Store parent relationship information
-        const childOfValue = el.getAttribute(this.childAttr);
+    elementsWithoutTabIndex.forEach((el) => {
+      el.setAttribute('tabindex', String(this.tabIndexAttr));
+    });
+  }
+
+  /**
+   * Adds the focus listener that keeps the engine state in sync with the DOM focus
+   */
+  private addFocusEventListener(el: HTMLElement): void {
+    const handler = () => {
+      this.currentFocusIndex = this.focusableElements.indexOf(el);
+      this.updateFocusClass(el);
+
+      // Remember the element as the last visited child of its group, and each of its
+      // ancestors for the group above it, so every level returns to this path
+      [el, ...this.getHierarchy().getAncestors(el)].forEach((item) => {
+        const childOfValue = item.getAttribute(this.childAttr);
         if (childOfValue) {
-          // Remember which parent this child came from
-          this.lastParentMap.set(childOfValue, el);
+          this.lastParentMap.set(childOfValue, item);
         }
-      };
+      });
+    };
+
+    el.addEventListener('focus', handler);
+    this.focusEventHandlers.set(el, handler);
+
+    // If element is already focused, apply the class
+    if (this.getDomActiveElement() === el) {
+      this.updateFocusClass(el);
+    }
+  }
+
+  /**
+   * Attributes whose changes can add, remove or regroup focusable elements: those the
+   * selector tests (class and id included), the relationship attributes, the grid attribute
+   * and dir, which changes the writing flow. Anything else, such as the focus class toggled
+   * on an element the selector does not test by class, or style and aria changes, is not
+   * observed
+   * @param extra Further attributes to observe
+   */
+  private getObservedAttributes(...extra: string[]): string[] {
+    const attributes = new Set([
+      this.parentAttr,
+      this.childAttr,
+      this.parentPositionAttr,
+      GRID_ATTR,
+      'dir',
+      ...extra,
+    ]);
+
+    (this.selector.match(/\[\s*[^\s~|^$*=\]]+/g) || []).forEach((match) => {
+      attributes.add(match.replace(/^\[\s*/, '').toLowerCase());
+    });
+    if (/\.-?[_a-zA-Z]/.test(this.selector)) {
+      attributes.add('class');
+    }
+    if (/#-?[_a-zA-Z]/.test(this.selector)) {
+      attributes.add('id');
+    }
+
+    return Array.from(attributes);
+  }
+
+  /**
+   * Checks whether a class mutation only toggled the engine's own focus or pointer class
+   */
+  private isOwnClassChange(record: MutationRecord): boolean {
+    const withoutOwnClasses = (value: string | null): string =>
+      (value || '')
+        .split(/\s+/)
+        .filter((name) => name && name !== this.focusClassName && name !== this.pointerClassName)
+        .sort()
+        .join(' ');
+
+    return (
+      withoutOwnClasses(record.oldValue) ===
+      withoutOwnClasses((record.target as Element).getAttribute('class'))
+    );
+  }
+
+  /**
+   * Applies a batch of DOM mutations to the list of focusable elements
+   */
+  private handleMutations = (records: MutationRecord[]): void => {
+    const added = new Set<HTMLElement>();
+    const removed = new Set<HTMLElement>();
+    const tracked = new Set(this.focusableElements);
+    let relationshipsChanged = false;
+
+    records.forEach((record) => {
+      if (record.type === 'attributes') {
+        const target = record.target as HTMLElement;
+        if (record.attributeName === 'class' && this.isOwnClassChange(record)) {
+          return;
+        }
+        if (record.attributeName === 'dir') {
+          this.writingFlows = new WeakMap();
+          return;
+        }
+        if (record.attributeName === this.parentAttr || record.attributeName === this.childAttr) {
+          relationshipsChanged = true;
+        }
+        if (record.attributeName === GRID_ATTR) {
+          this.gridLayouts.clear();
+        }
+        if (tracked.has(target)) {
+          removed.add(target);
+        } else {
+          added.add(target);
+        }
+        return;
+      }
+
+      // Moved containers may have landed in another writing flow
+      this.writingFlows = new WeakMap();
+
+      record.removedNodes.forEach((node) => {
+        this.focusableElements
+          .filter((el) => el === node || containsDeep(node, el))
+          .forEach((el) => removed.add(el));
+      });
+
+      record.addedNodes.forEach((node) => {
+        if (!(node instanceof HTMLElement)) return;
+        this.applyTabIndex(node);
+        this.observeShadowRoots(node);
+        if (node.matches(this.selector)) {
+          added.add(node);
+        }
+        this.queryAll(node, this.selector).forEach((el) => added.add(el));
+        this.frames.forEach((_origin, iframe) => {
+          if (containsDeep(node, iframe)) added.add(iframe);
+        });
+      });
+    });
+
+    // Elements that were moved or still match the selector stay in the list
+    const toRemove = Array.from(removed).filter((el) => !el.isConnected || !this.isCandidate(el));
+    const toAdd = Array.from(added).filter(
+      (el) => el.isConnected && this.isCandidate(el) && !tracked.has(el)
+    );
 
-      el.addEventListener('focus', handler);
-      this.focusEventHandlers.set(el, handler);
+    if (toRemove.length === 0 && toAdd.length === 0 && !relationshipsChanged) {
+      return;
+    }
 
-      // If element is already focused, apply the class
-      if (document.activeElement === el) {
-        this.updateFocusClass(el);
+    const previousElements = this.focusableElements;
+    this.gridLayouts.clear();
+    this.hierarchy = null;
+    const activeWasRemoved = !!this.activeElement && toRemove.includes(this.activeElement);
+    const removedActive = this.activeElement;
+
+    toRemove.forEach((el) => {
+      const handler = this.focusEventHandlers.get(el);
+      if (handler) {
+        el.removeEventListener('focus', handler as EventListener);
+        this.focusEventHandlers.delete(el);
+      }
+      if (el.hasAttribute(this.parentAttr) || el.hasAttribute(this.childAttr)) {
+        relationshipsChanged = true;
       }
     });
 
-    // Build parent-child relationships on initialization/update
-    this.updateParentChildRelationships();
+    this.focusableElements = previousElements
+      .filter((el) => !toRemove.includes(el))
+      .concat(toAdd)
+      .sort((a, b) => (a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1));
+
+    toAdd.forEach((el) => {
+      this.addFocusEventListener(el);
+      if (el.hasAttribute(this.parentAttr) || el.hasAttribute(this.childAttr)) {
+        relationshipsChanged = true;
+      }
+    });
+
+    if (relationshipsChanged) {
+      // Forget last visited children that are gone or moved to another parent
+      this.lastParentMap.forEach((child, parentId) => {
+        if (
+          !this.focusableElements.includes(child) ||
+          child.getAttribute(this.childAttr) !== parentId
+        ) {
+          this.lastParentMap.delete(parentId);
+        }
+      });
+      this.updateParentChildRelationships();
+    }
+
+    if (activeWasRemoved && removedActive) {
+      this.focusNeighbourOf(removedActive, previousElements);
+
+      // No neighbour took over, so nothing is focused anymore
+      if (this.activeElement === removedActive) {
+        removedActive.classList.remove(this.focusClassName);
+        this.activeElement = null;
+        this.previouslyFocusedElement = null;
+      }
+    }
+
+    this.geometry?.track(this.focusableElements);
+
+    this.currentFocusIndex = this.activeElement
+      ? this.focusableElements.indexOf(this.activeElement)
+      : -1;
+  };
+
+  /**
+   * Moves focus to the element closest to a removed element in document order,
+   * preferring siblings from the same parent group
+   * @param removedElement The element that was removed
+   * @param previousElements The focusable elements before the removal
+   */
+  private focusNeighbourOf(removedElement: HTMLElement, previousElements: HTMLElement[]): void {
+    const removedIndex = previousElements.indexOf(removedElement);
+    const childOfValue = removedElement.getAttribute(this.childAttr);
+    // Elements behind the top layer cannot take focus
+    const navigable = this.getNavigableElements();
+
+    const isCandidate = (el: HTMLElement | undefined, sameGroupOnly: boolean): boolean =>
+      !!el &&
+      navigable.includes(el) &&
+      this.isVisible(el) &&
+      (!sameGroupOnly || el.getAttribute(this.childAttr) === childOfValue);
+
+    const passes = childOfValue ? [true, false] : [false];
+
+    for (const sameGroupOnly of passes) {
+      for (let offset = 1; offset < previousElements.length; offset++) {
+        const next = previousElements[removedIndex + offset];
+        const previous = previousElements[removedIndex - offset];
+        const neighbour = isCandidate(next, sameGroupOnly)
+          ? next
+          : isCandidate(previous, sameGroupOnly)
+            ? previous
+            : undefined;
+
+        if (neighbour) {
+          try {
+            this.moveFocus(neighbour, null);
+          } catch (error) {
+            console.error('Error focusing neighbour element:', error);
+          }
+          return;
+        }
+      }
+    }
   }
 
   /**
@@ -184,9 +852,7 @@ export class FocusEngine {
       if (!parentId) return;
 
       // Find children for this parent
-      const childElements = this.focusableElements.filter(
-        (el) => el.getAttribute(this.childAttr) === parentId
-      );
+      const childElements = this.getHierarchy().getChildren(parentId);
 
       if (childElements.length > 0) {
         // If we don't have a last visited child for this parent yet, set the first child
@@ -198,9 +864,11 @@ export class FocusEngine {
   }
 
   /**
-   * Updates the CSS class on the focused element
+   * Updates the CSS class on the focused element and emits focus lifecycle events
    */
   private updateFocusClass(element: HTMLElement): void {
+    const previous = this.activeElement;
+
     // Remove class from previously focused element
     if (this.previouslyFocusedElement && this.previouslyFocusedElement !== element) {
       this.previouslyFocusedElement.classList.remove(this.focusClassName);
@@ -210,307 +878,1710 @@ export class FocusEngine {
     element.classList.add(this.focusClassName);
     this.previouslyFocusedElement = element;
 
-    // Update the activeElement property
-    this.activeElement = element;
+    // Update the activeElement property
+    this.activeElement = element;
+
+    // Remember the last focused element of its section
+    const section = this.getSectionOf(element);
+    if (section) {
+      this.sectionMemory.set(section.id, element);
+    }
+
+    if (previous === element) return;
+
+    this.startDwell(element);
+
+    if (previous && !this.navigatingBack) {
+      this.pushHistory(previous);
+    }
+
+    const previousGroup = previous?.getAttribute(this.childAttr) || null;
+    const nextGroup = element.getAttribute(this.childAttr);
+
+    if (previous) {
+      this.emitter.emit('blur', { element: previous, next: element });
+      if (previousGroup && previousGroup !== nextGroup) {
+        this.emitter.emit('leaveGroup', { parentId: previousGroup, element: previous });
+      }
+    }
+    if (nextGroup && nextGroup !== previousGroup) {
+      this.emitter.emit('enterGroup', { parentId: nextGroup, element });
+    }
+    this.emitGridChange(element, previous);
+    this.emitter.emit('focus', { element, previous });
+  }
+
+  /**
+   * Focuses an element and updates the engine state, unless a willMove handler cancels it
+   * @param target The element to focus
+   * @param direction The navigation direction, or null for non-directional moves
+   * @returns True if focus was moved
+   */
+  private moveFocus(target: HTMLElement, direction: Direction | null, scroll = true): boolean {
+    const source = this.activeElement;
+
+    if (source !== target) {
+      const event: WillMoveEvent = {
+        source,
+        target,
+        direction,
+        defaultPrevented: false,
+        preventDefault() {
+          this.defaultPrevented = true;
+        },
+      };
+      this.emitter.emit('willMove', event);
+      if (event.defaultPrevented) {
+        return false;
+      }
+    }
+
+    // With scroll management the engine scrolls, not the browser
+    target.focus({ preventScroll: !scroll || !!this.scrollManager });
+    if (scroll) {
+      this.scrollManager?.scrollIntoView(target);
+    }
+    // Focusing may have scrolled the page before any scroll event reaches the cache
+    this.geometry?.verify(target);
+    this.currentFocusIndex = this.focusableElements.indexOf(target);
+    this.updateFocusClass(target);
+    this.startTransition();
+
+    if (target instanceof HTMLIFrameElement && this.frames.has(target)) {
+      this.enterFrame(target, source, direction);
+    }
+    return true;
+  }
+
+  /**
+   * Subscribes to a focus lifecycle event
+   * @returns A function that removes the subscription
+   */
+  public on<K extends keyof FocusEngineEvents>(
+    event: K,
+    handler: EventHandler<FocusEngineEvents[K]>
+  ): () => void {
+    const firstDwellConsumer = event === 'dwell' && !this.hasDwellConsumer();
+    const unsubscribe = this.emitter.on(event, handler);
+    this.startDwellForFirstConsumer(firstDwellConsumer);
+    return unsubscribe;
+  }
+
+  /**
+   * Removes a focus lifecycle event subscription
+   */
+  public off<K extends keyof FocusEngineEvents>(
+    event: K,
+    handler: EventHandler<FocusEngineEvents[K]>
+  ): void {
+    this.emitter.off(event, handler);
+  }
+
+  /**
+   * Subscribes to the next occurrence of a focus lifecycle event
+   * @returns A function that removes the subscription
+   */
+  public once<K extends keyof FocusEngineEvents>(
+    event: K,
+    handler: EventHandler<FocusEngineEvents[K]>
+  ): () => void {
+    const firstDwellConsumer = event === 'dwell' && !this.hasDwellConsumer();
+    const unsubscribe = this.emitter.once(event, handler);
+    this.startDwellForFirstConsumer(firstDwellConsumer);
+    return unsubscribe;
+  }
+
+  /**
+   * Starts timing the element focus rests on when the first dwell consumer subscribes,
+   * since nothing was timed before
+   */
+  private startDwellForFirstConsumer(firstDwellConsumer: boolean): void {
+    if (firstDwellConsumer && this.activeElement) {
+      this.startDwell(this.activeElement);
+    }
+  }
+
+  /**
+   * Checks whether a callback or a `dwell` handler would be told about a dwell
+   */
+  private hasDwellConsumer(): boolean {
+    return !!(
+      this.onDwellCallback ||
+      this.onPrefetchCallback ||
+      this.emitter.hasListeners('dwell')
+    );
+  }
+
+  /**
+   * Starts timing how long focus rests on an element; a new focus restarts the timer.
+   * Nothing is timed while no callback or `dwell` handler would be told
+   */
+  private startDwell(element: HTMLElement): void {
+    this.cancelDwell();
+    if (!this.hasDwellConsumer()) {
+      return;
+    }
+
+    this.dwellTimer = setTimeout(() => {
+      this.dwellTimer = null;
+      if (this.activeElement !== element) return;
+
+      if (this.onDwellCallback) {
+        try {
+          this.onDwellCallback(element, this.dwellDelay);
+        } catch (error) {
+          console.error('Error in dwell callback:', error);
+        }
+      }
+      this.emitter.emit('dwell', { element, ms: this.dwellDelay });
+
+      if (this.onPrefetchCallback) {
+        try {
+          this.onPrefetchCallback(element, this.getNeighbours(element));
+        } catch (error) {
+          console.error('Error prefetching neighbours:', error);
+        }
+      }
+    }, this.dwellDelay);
+  }
+
+  /**
+   * Stops timing a dwell
+   */
+  private cancelDwell(): void {
+    if (this.dwellTimer) {
+      clearTimeout(this.dwellTimer);
+      this.dwellTimer = null;
+    }
+  }
+
+  /**
+   * Finds the element that navigation would most likely reach in each direction,
+   * following explicit overrides and otherwise the grid, section and spatial search of
+   * findNextFocusable. Parent/child jumps, edge behaviours and unrendered virtual items
+   * are not predicted
+   * @param element The element to start from (default: the active element)
+   */
+  public getNeighbours(
+    element: HTMLElement | null = this.activeElement
+  ): Record<Direction, HTMLElement | null> {
+    const neighbours: Record<Direction, HTMLElement | null> = {
+      ArrowUp: null,
+      ArrowDown: null,
+      ArrowLeft: null,
+      ArrowRight: null,
+    };
+    if (!element) {
+      return neighbours;
+    }
+
+    (Object.keys(neighbours) as Direction[]).forEach((direction) => {
+      const override = this.getNavigationOverride(element, direction);
+      neighbours[direction] =
+        override === 'none' ? null : override || this.findNextFocusable(element, direction);
+    });
+
+    return neighbours;
+  }
+
+  /**
+   * Clears focus event listeners
+   */
+  private clearFocusEventListeners(): void {
+    this.focusEventHandlers.forEach((handler, element) => {
+      element.removeEventListener('focus', handler as EventListener);
+    });
+    this.focusEventHandlers.clear();
+  }
+
+  /**
+   * Sets focus to the first visible focusable element
+   */
+  public setInitialFocus(): void {
+    const elements = this.getNavigableElements();
+
+    if (elements.length > 0) {
+      const firstVisibleElement = elements.find((el) => this.isVisible(el));
+      if (firstVisibleElement) {
+        try {
+          this.moveFocus(firstVisibleElement, null);
+
+          // Removed auto-focus from parent to child during initialization
+        } catch (error) {
+          console.error('Error setting initial focus:', error);
+        }
+      } else if (elements[0]) {
+        try {
+          this.moveFocus(elements[0], null);
+        } catch (error) {
+          console.error('Error setting fallback focus:', error);
+        }
+      }
+    }
+  }
+
+  /**
+   * Traps navigation inside a container (dialog, drawer) until the layer is popped.
+   * Layers nest: only the topmost one is navigable.
+   * @param container The element that contains the layer's focusable elements
+   */
+  public pushLayer(container: HTMLElement): void {
+    // The layer is usually rendered right before it is pushed
+    if (!this.focusableElements.some((el) => containsDeep(container, el))) {
+      this.updateFocusableElements();
+    }
+
+    this.layers.push({ container, restoreTo: this.activeElement });
+    // Grid layouts only hold the cells of the layer they were built in
+    this.gridLayouts.clear();
+    this.setInitialFocus();
+  }
+
+  /**
+   * Removes the topmost layer and restores focus to the element
+   * that was active when it was pushed
+   * @returns The container of the removed layer, or null if there were no layers
+   */
+  public popLayer(): HTMLElement | null {
+    const layer = this.layers.pop();
+    if (!layer) {
+      return null;
+    }
+    this.gridLayouts.clear();
+
+    const { restoreTo } = layer;
+    if (restoreTo && this.isVisible(restoreTo) && this.getNavigableElements().includes(restoreTo)) {
+      try {
+        this.moveFocus(restoreTo, null);
+      } catch (error) {
+        console.error('Error restoring focus after layer:', error);
+      }
+    } else {
+      this.setInitialFocus();
+    }
+
+    return layer.container;
+  }
+
+  /**
+   * Returns the element focused in the DOM within the engine's document or shadow root,
+   * through open shadow roots when shadowDom is set, or null when focus is on the body
+   */
+  private getDomActiveElement(): HTMLElement | null {
+    const active = getDeepActiveElement(
+      typeof ShadowRoot !== 'undefined' && this.root instanceof ShadowRoot ? this.root : document,
+      this.shadowDepth
+    );
+    return active instanceof HTMLElement && active !== document.body ? active : null;
+  }
+
+  /**
+   * Finds the elements matching a selector, inside open shadow roots when shadowDom is set
+   */
+  private queryAll(root: ParentNode, selector: string): HTMLElement[] {
+    return querySelectorAllDeep(root, selector, this.shadowDepth);
+  }
+
+  /**
+   * Watches the shadow roots below a node; mutations inside them do not reach the root observer
+   */
+  private observeShadowRoots(node: ParentNode): void {
+    if (!this.mutationObserver || this.shadowDepth === 0) return;
+
+    getShadowRootsDeep(node, this.shadowDepth).forEach((shadowRoot) => {
+      this.mutationObserver?.observe(shadowRoot, {
+        childList: true,
+        subtree: true,
+        attributeFilter: this.getObservedAttributes(),
+        attributeOldValue: true,
+      });
+    });
+  }
+
+  /**
+   * Returns the element that carries root classes: <html>, the root element or the shadow host
+   */
+  private getRootElement(): HTMLElement {
+    if (this.root instanceof Document) return this.root.documentElement;
+    if (this.root instanceof HTMLElement) return this.root;
+    return this.root.host as HTMLElement;
+  }
+
+  /**
+   * Returns the document the root belongs to
+   */
+  private getOwnerDocument(): Document {
+    return this.root instanceof Document ? this.root : (this.root.ownerDocument ?? document);
+  }
+
+  /**
+   * Returns the node whose subtree is watched for DOM changes
+   */
+  private getObservedNode(): Node {
+    return this.root instanceof Document ? this.root.body : this.root;
+  }
+
+  /**
+   * Enables or disables keyboard, gamepad and pointer input, e.g. while another engine owns it
+   */
+  public setInputEnabled(enabled: boolean): void {
+    this.inputEnabled = enabled;
+    if (!enabled) {
+      this.cancelLongPress();
+      this.keyRepeat?.clear();
+    }
+  }
+
+  /**
+   * Checks whether the engine reacts to keyboard, gamepad and pointer input
+   */
+  public isInputEnabled(): boolean {
+    return this.inputEnabled;
+  }
+
+  /**
+   * Moves DOM focus into the engine: to its active element if it is still navigable,
+   * otherwise to the initial element
+   */
+  public takeFocus(): void {
+    const element = this.activeElement;
+    if (element && element.isConnected && this.getNavigableElements().includes(element)) {
+      try {
+        this.moveFocus(element, null);
+      } catch (error) {
+        console.error('Error taking focus:', error);
+      }
+      return;
+    }
+    this.setInitialFocus();
+  }
+
+  /**
+   * Returns the container of the topmost layer, or the root when no layer is pushed
+   */
+  private getTopLayerRoot(): ParentNode {
+    return this.layers[this.layers.length - 1]?.container ?? this.root;
+  }
+
+  /**
+   * Gets the focusable elements that navigation may use: those inside
+   * the topmost layer, or all of them when no layer is pushed
+   */
+  private getNavigableElements(): HTMLElement[] {
+    const topLayer = this.layers[this.layers.length - 1];
+    if (!topLayer) {
+      return this.focusableElements;
+    }
+
+    return this.focusableElements.filter((el) => containsDeep(topLayer.container, el));
+  }
+
+  /**
+   * Public method to programmatically trigger Enter key behavior on the current active element
+   */
+  public triggerEnter(): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleEnterKey(currentElement);
+  }
+
+  /**
+   * Public method to programmatically trigger ArrowUp navigation from the current active element
+   */
+  public triggerArrowUp(): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleDirectionalNavigation(currentElement, 'ArrowUp');
+  }
+
+  /**
+   * Public method to programmatically trigger ArrowDown navigation from the current active element
+   */
+  public triggerArrowDown(): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleDirectionalNavigation(currentElement, 'ArrowDown');
+  }
+
+  /**
+   * Public method to programmatically trigger ArrowLeft navigation from the current active element
+   */
+  public triggerArrowLeft(): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleDirectionalNavigation(currentElement, 'ArrowLeft');
+  }
+
+  /**
+   * Public method to programmatically trigger ArrowRight navigation from the current active element
+   */
+  public triggerArrowRight(): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleDirectionalNavigation(currentElement, 'ArrowRight');
+  }
+
+  /**
+   * Public method to programmatically navigate in an arrow or logical direction.
+   * Logical directions follow the dir and writing-mode of the current active element
+   * @param direction e.g. 'ArrowDown' or 'inline-end'
+   */
+  public navigate(direction: NavigationDirection): void {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    this.handleDirectionalNavigation(currentElement, direction);
+  }
+
+  /**
+   * Public method to programmatically return focus to the parent element
+   * of the currently focused element (if it exists). Nested groups are climbed
+   * one level per call
+   * @returns True if focus moved to the parent
+   */
+  public triggerBack(): boolean {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+
+    if (!currentElement || !this.getNavigableElements().includes(currentElement)) {
+      return false;
+    }
+
+    // The parent one level up, if the current element is a child at all. A group may
+    // have several parents, so the first visible one is taken
+    const navigable = this.getNavigableElements();
+    const parentElement = this.getHierarchy().getAncestors(
+      currentElement,
+      (el) => navigable.includes(el) && this.isVisible(el)
+    )[0];
+
+    if (!parentElement) {
+      return false; // No reachable parent
+    }
+
+    // Focus the parent element
+    try {
+      if (this.moveFocus(parentElement, null)) {
+        this.emitter.emit('back', { from: currentElement, to: parentElement });
+        return true;
+      }
+    } catch (error) {
+      console.error('Error focusing parent element:', error);
+    }
+    return false;
+  }
+
+  /**
+   * Returns the parents above an element in the parent/child hierarchy, nearest first
+   */
+  public getAncestors(element: HTMLElement): HTMLElement[] {
+    return this.getHierarchy().getAncestors(element);
+  }
+
+  /**
+   * Returns the direct children of a parent, in document order
+   * @param parentId The value of the parent's data-focus-parent attribute
+   */
+  public getChildren(parentId: string): HTMLElement[] {
+    return this.getHierarchy().getChildren(parentId);
+  }
+
+  /**
+   * Gets the parent/child hierarchy of the focusable elements, built on first use
+   */
+  private getHierarchy(): FocusTree<HTMLElement> {
+    if (!this.hierarchy) {
+      this.hierarchy = new FocusTree(
+        this.focusableElements,
+        (el) => el.getAttribute(this.parentAttr),
+        (el) => el.getAttribute(this.childAttr)
+      );
+    }
+    return this.hierarchy;
+  }
+
+  /**
+   * Returns focus to the most recent element in the focus history that is still visible,
+   * falling back to the parent jump of triggerBack(). With backToParentFirst the parent jump
+   * comes first. Calls onBackUnhandled if neither applies
+   * @returns True if focus was moved
+   */
+  public goBack(): boolean {
+    const currentElement = this.activeElement || this.getDomActiveElement();
+    const navigableElements = this.getNavigableElements();
+
+    // Moves made while going back are not recorded, so back does not bounce between two elements
+    this.navigatingBack = true;
+    try {
+      // Leaves nested groups one level at a time before the history is used
+      if (this.backToParentFirst && this.triggerBack()) {
+        return true;
+      }
+
+      for (let i = this.focusHistory.length - 1; i >= 0; i--) {
+        const { element } = this.focusHistory[i];
+
+        // Skip removed and hidden elements for good
+        if (element === currentElement || !element.isConnected || !this.isVisible(element)) {
+          this.focusHistory.splice(i, 1);
+          continue;
+        }
+
+        // Elements outside the current layer stay in the history for when the layer closes
+        if (!navigableElements.includes(element)) continue;
+
+        const [entry] = this.focusHistory.splice(i, 1);
+        if (this.moveFocus(element, null)) {
+          if (currentElement) {
+            this.emitter.emit('back', { from: currentElement, to: element });
+          }
+          return true;
+        }
+        // A willMove handler cancelled the move
+        this.focusHistory.splice(i, 0, entry);
+        return false;
+      }
+
+      if (!this.backToParentFirst && this.triggerBack()) {
+        return true;
+      }
+    } finally {
+      this.navigatingBack = false;
+    }
+
+    this.onBackUnhandledCallback?.(currentElement);
+    return false;
+  }
+
+  /**
+   * Returns the focus history, oldest first
+   */
+  public getFocusHistory(): FocusHistoryEntry[] {
+    return [...this.focusHistory];
+  }
+
+  /**
+   * Forgets the focus history
+   */
+  public clearFocusHistory(): void {
+    this.focusHistory = [];
+  }
+
+  /**
+   * Records an element that lost focus, keeping each element once and the history bounded
+   */
+  private pushHistory(element: HTMLElement): void {
+    this.focusHistory = this.focusHistory.filter((entry) => entry.element !== element);
+    this.focusHistory.push({
+      element,
+      section: this.getSectionOf(element)?.id ?? null,
+      group: element.getAttribute(this.childAttr),
+    });
+
+    if (this.focusHistory.length > this.historySize) {
+      this.focusHistory.splice(0, this.focusHistory.length - this.historySize);
+    }
+  }
+
+  /**
+   * Translates mapped keydown events into engine actions
+   */
+  private handleKeyDown = (event: KeyboardEvent): void => {
+    if (event.defaultPrevented || !this.inputEnabled) return;
+
+    const action = resolveKeyAction(event, this.keyMap);
+    // Keys typed into a text field move its caret or submit it instead of moving focus
+    if (!action || isEditingKey(event, action)) return;
+
+    event.preventDefault();
+    handledKeyEvents.add(event);
+
+    if (this.getLongPressCallback(action)) {
+      // Short or long press is decided on keyup or when the delay elapses
+      if (!event.repeat) {
+        this.startLongPress(action);
+      }
+      return;
+    }
+
+    if (event.repeat) {
+      if (this.keyRepeat && !this.keyRepeat.tryRepeat(action)) return;
+    } else {
+      this.keyRepeat?.press(action);
+    }
+
+    this.handleInputAction(action, event.repeat);
+  };
+
+  /**
+   * Handles keys that did not pass through the root and that no other engine acted on,
+   * e.g. while focus is on <body>. Engines without input ignore them like any other key
+   */
+  private handleOuterKeyDown = (event: KeyboardEvent): void => {
+    if (!handledKeyEvents.has(event) && !event.composedPath().includes(this.root)) {
+      this.handleKeyDown(event);
+    }
+  };
+
+  /**
+   * Releases keys that did not pass through the root
+   */
+  private handleOuterKeyUp = (event: KeyboardEvent): void => {
+    if (!event.composedPath().includes(this.root)) {
+      this.handleKeyUp(event);
+    }
+  };
+
+  /**
+   * Releases held keys and completes short presses of long-press keys
+   */
+  private handleKeyUp = (event: KeyboardEvent): void => {
+    const action = resolveKeyAction(event, this.keyMap);
+    if (!action) return;
+
+    this.keyRepeat?.release(action);
+
+    const pending = this.pendingLongPress;
+    if (pending && pending.action === action) {
+      clearTimeout(pending.timer);
+      this.pendingLongPress = null;
+      if (!pending.fired) {
+        this.handleInputAction(action);
+      }
+    }
+  };
+
+  /**
+   * Returns the long-press callback of an action, if any
+   */
+  private getLongPressCallback(action: InputAction): ((element: HTMLElement) => void) | undefined {
+    if (action === 'Enter') return this.onLongSelectCallback;
+    if (action === 'Back') return this.onLongBackCallback;
+    return undefined;
+  }
+
+  /**
+   * Starts timing a press of Enter or Back; the long-press callback fires once the delay elapses
+   */
+  private startLongPress(action: InputAction): void {
+    this.cancelLongPress();
+
+    const pending = {
+      action,
+      fired: false,
+      timer: setTimeout(() => {
+        pending.fired = true;
+        this.setInputModality('key');
+
+        const element = this.activeElement || this.getDomActiveElement();
+        if (element && this.getNavigableElements().includes(element)) {
+          this.getLongPressCallback(action)?.(element);
+        }
+      }, this.longPressDelay),
+    };
+    this.pendingLongPress = pending;
+  }
+
+  /**
+   * Stops timing a long press
+   */
+  private cancelLongPress(): void {
+    if (this.pendingLongPress) {
+      clearTimeout(this.pendingLongPress.timer);
+      this.pendingLongPress = null;
+    }
+  }
+
+  /**
+   * Runs an input action coming from the keyboard or a gamepad
+   */
+  private handleInputAction = (action: InputAction, repeat = false): void => {
+    if (!this.inputEnabled) return;
+    this.setInputModality('key');
+    // The user took over, a restore that is still waiting must not steal focus later
+    this.cancelPendingRestore();
+
+    if (action !== 'Enter' && action !== 'Back') {
+      // Drop moves queued before the previous one was rendered, and repeats while it still scrolls.
+      // Back always goes through, so a screen can be left while its transition is pending
+      if (this.pendingTransition || (repeat && this.scrollManager?.isAnimating())) return;
+    }
+
+    switch (action) {
+      case 'Enter':
+        this.triggerEnter();
+        break;
+      case 'Back':
+        this.goBack();
+        break;
+      default: {
+        const currentElement = this.activeElement || this.getDomActiveElement();
+        this.handleDirectionalNavigation(currentElement, action);
+      }
+    }
+  };
+
+  /**
+   * Marks a focus transition as in flight until the next frame has been rendered
+   */
+  private startTransition(): void {
+    this.cancelTransition();
+
+    if (typeof requestAnimationFrame === 'function') {
+      const frame = requestAnimationFrame(() => {
+        this.pendingTransition = null;
+      });
+      this.pendingTransition = () => cancelAnimationFrame(frame);
+    } else {
+      const timer = setTimeout(() => {
+        this.pendingTransition = null;
+      }, 16);
+      this.pendingTransition = () => clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Ends the in-flight focus transition
+   */
+  private cancelTransition(): void {
+    this.pendingTransition?.();
+    this.pendingTransition = null;
+  }
+
+  /**
+   * Returns the input device the user is currently driving focus with
+   */
+  public getInputModality(): InputModality {
+    return this.inputModality;
+  }
+
+  /**
+   * Switches the input modality, toggles the root class and emits `modalityChange`
+   */
+  private setInputModality(modality: InputModality): void {
+    if (this.inputModality === modality) return;
+
+    this.inputModality = modality;
+    if (this.pointer) {
+      this.getRootElement().classList.toggle(this.pointerClassName, modality === 'pointer');
+    }
+    this.emitter.emit('modalityChange', { modality });
+  }
+
+  /**
+   * Finds the navigable element under a pointer event target
+   */
+  private getPointerTarget(event: Event): HTMLElement | null {
+    // The composed path reaches into shadow roots, event.target stops at the host
+    const path = event.composedPath();
+    const navigableElements = this.getNavigableElements();
+
+    for (const node of path) {
+      if (node instanceof HTMLElement && navigableElements.includes(node)) {
+        return node;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Pointer movement switches to pointer modality and focuses the hovered element
+   * without scrolling. mouseover is not used: it also fires when key navigation
+   * scrolls content under a resting pointer, which would steal focus back.
+   */
+  private handlePointerMove = (event: MouseEvent): void => {
+    if (!this.inputEnabled) return;
+    this.setInputModality('pointer');
+
+    const element = this.getPointerTarget(event);
+    if (element && element !== this.activeElement) {
+      this.cancelPendingMaterialization();
+      this.moveFocus(element, null, false);
+    }
+  };
+
+  /**
+   * Clicking an element selects it like Enter
+   */
+  private handlePointerClick = (event: MouseEvent): void => {
+    if (!this.inputEnabled) return;
+    const element = this.getPointerTarget(event);
+    if (!element) return;
+
+    this.setInputModality('pointer');
+    if (element !== this.activeElement && !this.moveFocus(element, null, false)) return;
+    this.handleEnterKey(element);
+  };
+
+  /**
+   * Any key press switches back to key modality
+   */
+  private handleModalityKeyDown = (): void => {
+    this.setInputModality('key');
+  };
+
+  /**
+   * Handles directional navigation based on arrow keys
+   * @param currentElement The currently focused element
+   * @param navigationDirection The navigation direction; logical ones follow the flow of the
+   * start element
+   */
+  private handleDirectionalNavigation(
+    currentElement: HTMLElement | null,
+    navigationDirection: NavigationDirection
+  ): void {
+    // Define the starting element for navigation
+    const startElement =
+      currentElement && this.getNavigableElements().includes(currentElement)
+        ? currentElement
+        : this.getNavigableElements().find((el) => this.isVisible(el));
+
+    if (!startElement) return; // No visible elements for navigation
+
+    const direction = isLogicalDirection(navigationDirection)
+      ? resolveDirection(navigationDirection, this.getWritingFlow(startElement))
+      : navigationDirection;
+
+    // A new move supersedes a virtual item that is still being rendered
+    this.cancelPendingMaterialization();
+
+    // Explicit overrides win over parent/child and spatial navigation
+    const override = this.getNavigationOverride(startElement, direction);
+    if (override === 'none') {
+      this.emitter.emit('edgeReached', { element: startElement, direction });
+      return;
+    }
+    if (override) {
+      try {
+        this.moveFocus(override, direction);
+      } catch (error) {
+        console.error('Error focusing override element:', error);
+      }
+      return;
+    }
+
+    // Check if this is a parent element and the key is a navigation direction that should go to children
+    const shouldNavigateToChildren = this.shouldNavigateToChildren(startElement, direction);
+
+    if (shouldNavigateToChildren) {
+      // Navigate from parent to child using arrow keys
+      const navigatedToChild = this.navigateToChildren(startElement, direction);
+      if (navigatedToChild) {
+        return; // Successfully navigated to child, exit early
+      }
+    }
+
+    // Check for parent-child relationship navigation (child to parent)
+    const parentElement = this.checkParentNavigation(startElement, direction);
+
+    if (parentElement) {
+      try {
+        this.moveFocus(parentElement, direction);
+      } catch (error) {
+        console.error('Error focusing parent element:', error);
+      }
+    } else {
+      // No parent navigation, try spatial navigation
+      const nextElement = this.findNextFocusable(startElement, direction);
+      const virtualTarget = this.findVirtualTarget(startElement, direction, nextElement);
+
+      if (virtualTarget) {
+        this.focusVirtualItem(virtualTarget.container, virtualTarget.index, direction);
+      } else if (nextElement) {
+        try {
+          this.moveFocus(nextElement, direction);
+        } catch (error) {
+          console.error('Error focusing next element:', error);
+        }
+      } else if (
+        !this.exitFrame(startElement, direction) &&
+        !this.handleEdge(startElement, direction)
+      ) {
+        // Inside a frame the edge of the document hands navigation back to the parent,
+        // edgeReached is only emitted when focus stays
+        this.emitter.emit('edgeReached', { element: startElement, direction });
+      }
+    }
+  }
+
+  /**
+   * Resolves the explicit navigation target of an element from its data-focus-* attribute,
+   * the arrow one (data-focus-left) before the logical one (data-focus-inline-start).
+   * The value can be 'none', a section name, an element id or a CSS selector.
+   * @returns The target element, 'none' if the direction is blocked,
+   * or null if there is no override (or its target is not navigable)
+   */
+  private getNavigationOverride(
+    element: HTMLElement,
+    direction: Direction
+  ): HTMLElement | 'none' | null {
+    let value = element.getAttribute(NAVIGATION_OVERRIDE_ATTRS[direction])?.trim();
+    // The writing flow is only read for elements that have logical overrides
+    if (
+      value === undefined &&
+      Object.values(LOGICAL_OVERRIDE_ATTRS).some((attr) => element.hasAttribute(attr))
+    ) {
+      const logical = toLogicalDirection(direction, this.getWritingFlow(element));
+      value = element.getAttribute(LOGICAL_OVERRIDE_ATTRS[logical])?.trim();
+    }
+    if (!value) {
+      return null;
+    }
+
+    if (value === 'none') {
+      return 'none';
+    }
+
+    if (this.sections.some((section) => section.id === value)) {
+      return this.getSectionEntry(value);
+    }
+
+    const candidates = this.getNavigableElements().filter(
+      (el) => el !== element && this.isVisible(el)
+    );
+
+    const byId = candidates.find((el) => el.id === value);
+    if (byId) {
+      return byId;
+    }
+
+    try {
+      return candidates.find((el) => el.matches(value)) || null;
+    } catch {
+      // Not a valid selector
+      return null;
+    }
+  }
+
+  /**
+   * Applies the edge behaviour when there is no candidate in a direction.
+   * The most specific config wins: parent group, then section, then the engine default.
+   * A section that blocks leaving in the direction keeps focus without any edge behaviour.
+   * @returns Whether focus moved
+   */
+  private handleEdge(currentElement: HTMLElement, direction: Direction): boolean {
+    const groupId = currentElement.getAttribute(this.childAttr);
+    const section = this.getSectionOf(currentElement);
+    const flow = () => this.getWritingFlow(currentElement);
+    if (isLeaveBlocked(section, direction, flow)) {
+      return false;
+    }
+
+    const behavior = resolveEdgeBehavior(
+      direction,
+      [
+        groupId ? this.groupEdgeBehavior[groupId] : undefined,
+        section?.edgeBehavior,
+        this.edgeBehavior,
+      ],
+      flow
+    );
+
+    if (behavior === 'stop') {
+      return false;
+    }
+
+    let target: HTMLElement | null | void = null;
+
+    if (typeof behavior === 'function') {
+      target = behavior(currentElement, direction);
+    } else {
+      // Wrap within the most specific container: the parent group, the section or the whole page
+      const scope = this.getNavigableElements().filter(
+        (el) =>
+          el !== currentElement &&
+          this.isVisible(el) &&
+          (groupId
+            ? el.getAttribute(this.childAttr) === groupId
+            : !section || this.getSectionOf(el) === section)
+      );
+      const candidates = scope.map((item) => ({ item, rect: this.getRect(item) }));
+      target = findEdgeTarget(behavior, this.getRect(currentElement), candidates, direction);
+    }
+
+    if (!target || target === currentElement) {
+      return false;
+    }
+    try {
+      this.moveFocus(target, direction);
+    } catch (error) {
+      console.error('Error focusing edge target:', error);
+    }
+    return true;
+  }
+
+  /**
+   * Handles Enter key press on an element
+   * @param currentElement The currently focused element
+   */
+  private handleEnterKey(currentElement: HTMLElement | null): void {
+    if (currentElement && this.getNavigableElements().includes(currentElement)) {
+      // Apply visual effect
+      currentElement.style.transform = 'scale(0.95)';
+      setTimeout(() => {
+        if (
+          this.activeElement === currentElement ||
+          this.getDomActiveElement() === currentElement
+        ) {
+          currentElement.style.transform = 'scale(1.05)';
+        } else {
+          currentElement.style.transform = '';
+        }
+      }, 100);
+
+      // Check if this is a parent element that has children to focus
+      const navigatedToChild = this.navigateToChildren(currentElement);
+
+      // Only call the callback if we didn't navigate to a child
+      // This prevents the callback from being called when we're just navigating
+      if (!navigatedToChild) {
+        this.onSelectCallback?.(currentElement);
+        this.emitter.emit('select', { element: currentElement });
+      }
+    }
+  }
+
+  /**
+   * Finds the next element to focus in the given direction.
+   * Candidates inside the current section are preferred; leaving the section
+   * follows its leave rule, and entering another section follows that section's enter rule.
+   */
+  private findNextFocusable(currentElement: HTMLElement, direction: Direction): HTMLElement | null {
+    if (!currentElement) return null;
+
+    // Inside a grid, navigation goes by row and column; spatial scoring only leaves the grid
+    const grid = this.getGridOf(currentElement);
+    if (grid) {
+      const layout = this.getGridLayout(grid);
+      const position = findGridPosition(layout, currentElement);
+      const gridTarget = position && findGridTarget(layout, position, direction);
+      if (gridTarget) {
+        return gridTarget;
+      }
+    }
+
+    // Filter out the current element, invisible elements and the rest of the current grid
+    const visibleFocusableElements = this.getNavigableElements().filter(
+      (el) => el !== currentElement && this.isVisible(el) && (!grid || this.getGridOf(el) !== grid)
+    );
+
+    return findNextInSections(currentElement, visibleFocusableElements, direction, {
+      getSection: (element) => this.getSectionOf(element),
+      getSectionEntry: (id, fallback) => this.getSectionEntry(id, fallback),
+      findBest: (current, dir, candidates) => this.findBestCandidate(current, dir, candidates),
+      getFlow: (element) => this.getWritingFlow(element),
+    });
+  }
+
+  /**
+   * Scores the candidates and returns the best one in the given direction
+   */
+  private findBestCandidate(
+    currentElement: HTMLElement,
+    direction: Direction,
+    candidates: HTMLElement[]
+  ): HTMLElement | null {
+    const currentRect = this.getRect(currentElement);
+    const strategy = this.getScoringStrategy(currentElement);
+
+    // With the geometry cache, built-in strategies only score candidates near the current element
+    const bound = getScoreBound(strategy);
+    if (this.geometry && bound !== undefined) {
+      const allowed = new Set(candidates);
+      return this.geometry
+        .getIndex(() => this.focusableElements)
+        .findBest(
+          currentRect,
+          direction,
+          ({ item, rect }) => (allowed.has(item) ? strategy(currentRect, rect, direction) : null),
+          bound
+        );
+    }
+
+    return findBestCandidate(
+      currentRect,
+      candidates.map((item) => ({ item, rect: this.getRect(item) })),
+      direction,
+      strategy
+    );
+  }
+
+  /**
+   * Gets the scoring strategy for navigation that starts at an element
+   */
+  private getScoringStrategy(element: HTMLElement): ScoringStrategy {
+    return resolveScoringStrategy(this.getSectionOf(element)?.scoring ?? this.scoring);
+  }
+
+  /**
+   * Registers a virtualized container whose items are not all rendered.
+   * Rendered items must carry their index in the data-focus-index attribute.
+   * @returns A function that unregisters the collection
+   */
+  public registerVirtualCollection(
+    container: HTMLElement,
+    provider: VirtualCollectionProvider
+  ): () => void {
+    this.virtualCollections.set(container, provider);
+    return () => this.unregisterVirtualCollection(container);
+  }
+
+  /**
+   * Unregisters a virtualized container
+   */
+  public unregisterVirtualCollection(container: HTMLElement): void {
+    this.virtualCollections.delete(container);
+  }
+
+  /**
+   * Finds an unrendered item of a virtual collection, the current element's or one
+   * in the direction of the move, that scores better than the best rendered candidate
+   */
+  private findVirtualTarget(
+    currentElement: HTMLElement,
+    direction: Direction,
+    nextElement: HTMLElement | null
+  ): { container: HTMLElement; index: number } | null {
+    if (this.virtualCollections.size === 0) {
+      return null;
+    }
+
+    const currentRect = this.getRect(currentElement);
+    const strategy = this.getScoringStrategy(currentElement);
+    let bestScore = nextElement
+      ? (strategy(currentRect, this.getRect(nextElement), direction) ?? Infinity)
+      : Infinity;
+    let best: { container: HTMLElement; index: number } | null = null;
+
+    this.virtualCollections.forEach((provider, container) => {
+      // Entering from outside: skip collections that lie entirely behind the move
+      if (
+        !containsDeep(container, currentElement) &&
+        !reachesBeyond(this.getRect(container), currentRect, direction)
+      ) {
+        return;
+      }
+
+      const candidate = findVirtualCandidate(container, provider, currentRect, direction, strategy);
+      if (candidate && candidate.score < bestScore) {
+        bestScore = candidate.score;
+        best = { container, index: candidate.index };
+      }
+    });
+
+    return best;
+  }
+
+  /**
+   * Asks the host to render a virtual item and focuses it once it is mounted
+   */
+  private focusVirtualItem(container: HTMLElement, index: number, direction: Direction): void {
+    const provider = this.virtualCollections.get(container);
+    if (!provider) return;
+
+    this.cancelPendingMaterialization();
+
+    const tryFocus = (): boolean => {
+      const element = getVirtualItemElement(container, index);
+      if (!element || !element.matches(this.selector)) {
+        return false;
+      }
+
+      if (!this.focusableElements.includes(element)) {
+        this.updateFocusableElements();
+      }
+
+      try {
+        this.moveFocus(element, direction);
+      } catch (error) {
+        console.error('Error focusing virtual item:', error);
+      }
+      return true;
+    };
+
+    provider.materialize(index);
+    if (tryFocus()) return;
+
+    // Wait for the host to mount the item
+    const observer = new MutationObserver(() => {
+      if (tryFocus()) {
+        this.cancelPendingMaterialization();
+      }
+    });
+    observer.observe(container, {
+      childList: true,
+      subtree: true,
+      attributeFilter: this.getObservedAttributes(VIRTUAL_INDEX_ATTR),
+    });
+    const timer = setTimeout(() => this.cancelPendingMaterialization(), provider.timeout ?? 1000);
+
+    this.pendingMaterialization = () => {
+      observer.disconnect();
+      clearTimeout(timer);
+    };
+  }
+
+  /**
+   * Stops waiting for a virtual item to mount
+   */
+  private cancelPendingMaterialization(): void {
+    if (this.pendingMaterialization) {
+      this.pendingMaterialization();
+      this.pendingMaterialization = null;
+    }
+  }
+
+  /**
+   * Puts a container into grid mode, like the data-focus-grid attribute
+   * @returns A function that unregisters the grid
+   */
+  public registerGrid(container: HTMLElement): () => void {
+    this.grids.add(container);
+    this.gridLayouts.clear();
+    return () => this.unregisterGrid(container);
+  }
+
+  /**
+   * Takes a container out of grid mode
+   */
+  public unregisterGrid(container: HTMLElement): void {
+    this.grids.delete(container);
+    this.gridLayouts.clear();
+  }
+
+  /**
+   * Gets the row and column of an element in its grid
+   * @returns The position, or null if the element is not in a grid
+   */
+  public getGridPosition(element: HTMLElement): GridPosition | null {
+    const grid = this.getGridOf(element);
+    return grid ? findGridPosition(this.getGridLayout(grid), element) : null;
+  }
+
+  /**
+   * Moves focus to a cell of a grid
+   * @param row Zero-based row
+   * @param col Zero-based column
+   * @param grid The grid container (default: the grid of the focused element, or the first grid)
+   * @returns True if focus was moved
+   */
+  public focusCell(row: number, col: number, grid?: HTMLElement): boolean {
+    const container =
+      grid ||
+      (this.activeElement && this.getGridOf(this.activeElement)) ||
+      this.grids.values().next().value ||
+      this.queryAll(this.root, `[${GRID_ATTR}]`)[0];
+    const target = container ? this.getGridLayout(container)[row]?.[col] : undefined;
+    if (!target) {
+      return false;
+    }
+
+    try {
+      return this.moveFocus(target, null);
+    } catch (error) {
+      console.error('Error focusing grid cell:', error);
+      return false;
+    }
+  }
+
+  /**
+   * Finds the innermost grid that contains an element
+   */
+  private getGridOf(element: HTMLElement): HTMLElement | null {
+    let node = getComposedParent(element);
+    while (node) {
+      if (this.grids.has(node) || node.hasAttribute(GRID_ATTR)) {
+        return node;
+      }
+      node = getComposedParent(node);
+    }
+
+    return null;
+  }
+
+  /**
+   * Gets the rows of a grid, computed from layout on first use
+   */
+  private getGridLayout(grid: HTMLElement): HTMLElement[][] {
+    let layout = this.gridLayouts.get(grid);
+    if (!layout) {
+      const items = this.getNavigableElements()
+        .filter((el) => this.isVisible(el) && this.getGridOf(el) === grid)
+        .map((item) => ({ item, rect: this.getRect(item) }));
+      layout = buildGridLayout(items);
+      this.gridLayouts.set(grid, layout);
+    }
+
+    return layout;
+  }
+
+  /**
+   * Emits row and column changes when focus moves within or into a grid
+   */
+  private emitGridChange(element: HTMLElement, previous: HTMLElement | null): void {
+    const grid = this.getGridOf(element);
+    const position = grid && findGridPosition(this.getGridLayout(grid), element);
+    if (!grid || !position) return;
+
+    const previousPosition =
+      previous && this.getGridOf(previous) === grid ? this.getGridPosition(previous) : null;
+
+    if (position.row !== previousPosition?.row) {
+      this.emitter.emit('rowChange', {
+        element,
+        grid,
+        row: position.row,
+        previous: previousPosition?.row ?? null,
+      });
+    }
+    if (position.col !== previousPosition?.col) {
+      this.emitter.emit('columnChange', {
+        element,
+        grid,
+        col: position.col,
+        previous: previousPosition?.col ?? null,
+      });
+    }
+  }
+
+  /**
+   * Registers a same-origin iframe that runs its own engine with the `frame` option.
+   * The iframe becomes a navigation stop even if it does not match the selector, and belongs
+   * to the section around it; moving focus onto it hands navigation to the frame
+   * @param iframe The iframe element
+   * @param origin Origin of the frame's page (default: this page's origin)
+   * @returns A function that unregisters the frame
+   */
+  public registerFrame(iframe: HTMLIFrameElement, origin?: string): () => void {
+    this.frames.set(iframe, origin || window.location.origin);
+    if (this.initialized) {
+      window.addEventListener('message', this.handleFrameMessage);
+      this.updateFocusableElements();
+    }
+    return () => this.unregisterFrame(iframe);
+  }
+
+  /**
+   * Unregisters an iframe
+   */
+  public unregisterFrame(iframe: HTMLIFrameElement): void {
+    if (this.frames.delete(iframe) && this.initialized) {
+      this.updateFocusableElements();
+    }
+  }
+
+  /**
+   * Tells a frame's engine to take over, with the direction and origin of the move
+   */
+  private enterFrame(
+    iframe: HTMLIFrameElement,
+    source: HTMLElement | null,
+    direction: Direction | null
+  ): void {
+    const frameRect = this.getRect(iframe);
+    const message: FrameMessage = {
+      type: 'focus-engine:enter',
+      direction,
+      rect: source ? toPlainRect(this.getRect(source), -frameRect.left, -frameRect.top) : null,
+    };
+
+    try {
+      iframe.contentWindow?.postMessage(message, this.frames.get(iframe) as string);
+    } catch (error) {
+      console.error('Error entering frame:', error);
+    }
+  }
+
+  /**
+   * Hands navigation back to the parent engine when running inside a frame
+   * @returns True if the parent was asked to continue the move
+   */
+  private exitFrame(element: HTMLElement, direction: Direction): boolean {
+    if (!this.frameParent || this.frameParent.window === window) {
+      return false;
+    }
+
+    const message: FrameMessage = {
+      type: 'focus-engine:exit',
+      direction,
+      rect: toPlainRect(this.getRect(element)),
+    };
+    this.frameParent.window.postMessage(message, this.frameParent.origin);
+    return true;
+  }
+
+  /**
+   * Handles hand-offs: entering this frame from the parent, or leaving a registered frame
+   */
+  private handleFrameMessage = (event: MessageEvent): void => {
+    if (!this.inputEnabled || !isFrameMessage(event.data)) return;
+
+    const message = event.data;
+
+    if (message.type === 'focus-engine:enter') {
+      const parent = this.frameParent;
+      if (!parent || event.source !== parent.window || event.origin !== parent.origin) return;
+
+      const target =
+        message.direction && message.rect
+          ? this.findRectTarget(message.rect, message.direction, null)
+          : null;
+      if (target) {
+        this.moveFocus(target, message.direction);
+      } else {
+        this.takeFocus();
+      }
+      return;
+    }
+
+    const iframe = Array.from(this.frames.keys()).find(
+      (frame) => frame.contentWindow === event.source
+    );
+    if (!iframe || event.origin !== this.frames.get(iframe)) return;
+
+    // Continue the move from the frame's element, in this page's coordinates
+    const frameRect = this.getRect(iframe);
+    const target = this.findRectTarget(
+      toPlainRect(message.rect, frameRect.left, frameRect.top),
+      message.direction,
+      iframe
+    );
+    if (target) {
+      this.moveFocus(target, message.direction);
+    } else if (!this.handleEdge(iframe, message.direction)) {
+      this.emitter.emit('edgeReached', { element: iframe, direction: message.direction });
+    }
+  };
+
+  /**
+   * Finds the best visible element for a move that starts at a rect from another document
+   */
+  private findRectTarget(
+    rect: Rect,
+    direction: Direction,
+    exclude: HTMLElement | null
+  ): HTMLElement | null {
+    const candidates = this.getNavigableElements()
+      .filter((el) => el !== exclude && this.isVisible(el))
+      .map((item) => ({ item, rect: this.getRect(item) }));
+    const strategy = exclude
+      ? this.getScoringStrategy(exclude)
+      : resolveScoringStrategy(this.scoring);
+
+    return findRectTarget(rect, candidates, direction, strategy);
   }
 
   /**
-   * Clears focus event listeners
+   * Captures the focused element, the last child of each parent and the memory of each section.
+   * Elements without a focus key are left out
+   * @returns A JSON-serializable snapshot for restoreState()
    */
-  private clearFocusEventListeners(): void {
-    this.focusEventHandlers.forEach((handler, element) => {
-      element.removeEventListener('focus', handler as EventListener);
-    });
-    this.focusEventHandlers.clear();
+  public saveState(): FocusState {
+    const toKeys = (map: Map<string, HTMLElement>): Record<string, string> => {
+      const keys: Record<string, string> = {};
+      map.forEach((element, id) => {
+        const key = this.getFocusKey(element);
+        if (key !== null) {
+          keys[id] = key;
+        }
+      });
+      return keys;
+    };
+
+    return {
+      active: this.activeElement ? this.getFocusKey(this.activeElement) : null,
+      parents: toKeys(this.lastParentMap),
+      sections: toKeys(this.sectionMemory),
+    };
   }
 
   /**
-   * Sets focus to the first visible focusable element
+   * Reapplies a snapshot from saveState(). Waits for the focused element to be rendered,
+   * and falls back to setInitialFocus() if it does not appear within the timeout
+   * @param state The snapshot
+   * @param timeout How long to wait for the focused element, in milliseconds (default: 1000)
+   * @returns A promise that resolves to true if the focused element was restored
    */
-  public setInitialFocus(): void {
-    if (this.focusableElements.length > 0) {
-      const firstVisibleElement = this.focusableElements.find((el) => el.offsetParent !== null);
-      if (firstVisibleElement) {
-        try {
-          firstVisibleElement.focus({ preventScroll: false });
-          this.currentFocusIndex = this.focusableElements.indexOf(firstVisibleElement);
-          this.updateFocusClass(firstVisibleElement);
+  public restoreState(state: FocusState, timeout: number = 1000): Promise<boolean> {
+    this.cancelPendingRestore();
+
+    return new Promise((resolve) => {
+      const tryRestore = (): boolean => {
+        // The focused element must be inside the top layer, if one is open
+        const element =
+          state.active !== null ? this.findByFocusKey(state.active, this.getTopLayerRoot()) : null;
+        if (!element) {
+          return false;
+        }
 
-          // Removed auto-focus from parent to child during initialization
-        } catch (error) {
-          console.error('Error setting initial focus:', error);
+        this.applyStateMemory(state);
+        if (!this.focusableElements.includes(element)) {
+          this.updateFocusableElements();
         }
-      } else if (this.focusableElements[0]) {
+
         try {
-          this.focusableElements[0].focus({ preventScroll: false });
-          this.currentFocusIndex = 0;
-          this.updateFocusClass(this.focusableElements[0]);
+          this.moveFocus(element, null);
         } catch (error) {
-          console.error('Error setting fallback focus:', error);
+          console.error('Error restoring focus:', error);
         }
+        return true;
+      };
+
+      if (tryRestore()) {
+        resolve(true);
+        return;
       }
-    }
+
+      const fallback = () => {
+        this.applyStateMemory(state);
+        this.setInitialFocus();
+        resolve(false);
+      };
+
+      if (state.active === null || typeof MutationObserver === 'undefined') {
+        fallback();
+        return;
+      }
+
+      // Wait for the host to render the focused element
+      const stop = () => {
+        this.pendingRestore = null;
+        observer.disconnect();
+        clearTimeout(timer);
+      };
+      const observer = new MutationObserver(() => {
+        if (tryRestore()) {
+          stop();
+          resolve(true);
+        }
+      });
+      observer.observe(this.getObservedNode(), {
+        childList: true,
+        subtree: true,
+        attributeFilter: this.getObservedAttributes(this.keyAttr),
+      });
+      const timer = setTimeout(() => {
+        stop();
+        fallback();
+      }, timeout);
+
+      this.pendingRestore = () => {
+        stop();
+        resolve(false);
+      };
+    });
   }
 
   /**
-   * Public method to programmatically trigger Enter key behavior on the current active element
+   * Stops waiting for a restored element to be rendered
    */
-  public triggerEnter(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-    this.handleEnterKey(currentElement);
+  private cancelPendingRestore(): void {
+    this.pendingRestore?.();
   }
 
   /**
-   * Public method to programmatically trigger ArrowUp navigation from the current active element
+   * Restores the last child of each parent and the memory of each section
+   * from the elements that exist now
    */
-  public triggerArrowUp(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-    this.handleDirectionalNavigation(currentElement, 'ArrowUp');
+  private applyStateMemory(state: FocusState): void {
+    Object.entries(state.parents).forEach(([parentId, key]) => {
+      const element = this.findByFocusKey(key);
+      if (element) {
+        this.lastParentMap.set(parentId, element);
+      }
+    });
+    Object.entries(state.sections).forEach(([sectionId, key]) => {
+      const element = this.findByFocusKey(key);
+      if (element) {
+        this.sectionMemory.set(sectionId, element);
+      }
+    });
   }
 
   /**
-   * Public method to programmatically trigger ArrowDown navigation from the current active element
+   * Returns the stable key of an element, or null if it has none
    */
-  public triggerArrowDown(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-    this.handleDirectionalNavigation(currentElement, 'ArrowDown');
+  private getFocusKey(element: HTMLElement): string | null {
+    return this.keyResolver ? this.keyResolver(element) : element.getAttribute(this.keyAttr);
   }
 
   /**
-   * Public method to programmatically trigger ArrowLeft navigation from the current active element
+   * Finds the focusable element with a key
+   * @param scope The node to search in (default: the root)
    */
-  public triggerArrowLeft(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-    this.handleDirectionalNavigation(currentElement, 'ArrowLeft');
+  private findByFocusKey(key: string, scope: ParentNode = this.root): HTMLElement | null {
+    return (
+      this.queryAll(scope, this.selector).find((element) => this.getFocusKey(element) === key) ||
+      null
+    );
   }
 
   /**
-   * Public method to programmatically trigger ArrowRight navigation from the current active element
+   * Adds a section, replacing any section with the same id
    */
-  public triggerArrowRight(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-    this.handleDirectionalNavigation(currentElement, 'ArrowRight');
+  public addSection(section: FocusSection): void {
+    this.removeSection(section.id);
+    this.sections.push(section);
   }
 
   /**
-   * Public method to programmatically return focus to the parent element
-   * of the currently focused element (if it exists)
+   * Removes a section and forgets its last focused element
    */
-  public triggerBack(): void {
-    const currentElement = this.activeElement || (document.activeElement as HTMLElement);
-
-    if (!currentElement || !this.focusableElements.includes(currentElement)) {
-      return;
-    }
-
-    // Check if the current element has a parent relationship
-    const childOfValue = currentElement.getAttribute(this.childAttr);
-
-    if (!childOfValue) {
-      return; // Not a child element
-    }
-
-    // Find parent elements that match the child's parent ID
-    const parentElements = this.focusableElements.filter(
-      (el) => el.getAttribute(this.parentAttr) === childOfValue && el.offsetParent !== null
-    );
+  public removeSection(id: string): void {
+    this.sections = this.sections.filter((section) => section.id !== id);
+    this.sectionMemory.delete(id);
+  }
 
-    if (parentElements.length === 0) {
-      return; // No matching parent found
+  /**
+   * Moves focus into a section according to its enter rule
+   * @returns True if focus was moved
+   */
+  public focusSection(id: string): boolean {
+    const entry = this.getSectionEntry(id);
+    if (!entry) {
+      return false;
     }
 
-    // Focus the parent element
     try {
-      const parentElement = parentElements[0];
-      parentElement.focus({ preventScroll: false });
-      this.currentFocusIndex = this.focusableElements.indexOf(parentElement);
-      this.updateFocusClass(parentElement);
+      return this.moveFocus(entry, null);
     } catch (error) {
-      console.error('Error focusing parent element:', error);
+      console.error('Error focusing section:', error);
+      return false;
     }
   }
 
   /**
-   * Handles directional navigation based on arrow keys
-   * @param currentElement The currently focused element
-   * @param direction The navigation direction
+   * Finds the innermost section that contains an element
    */
-  private handleDirectionalNavigation(currentElement: HTMLElement, direction: Direction): void {
-    // Define the starting element for navigation
-    const startElement =
-      currentElement && this.focusableElements.includes(currentElement)
-        ? currentElement
-        : this.focusableElements.find((el) => el.offsetParent !== null);
-
-    if (!startElement) return; // No visible elements for navigation
-
-    // Check if this is a parent element and the key is a navigation direction that should go to children
-    const shouldNavigateToChildren = this.shouldNavigateToChildren(startElement, direction);
-
-    if (shouldNavigateToChildren) {
-      // Navigate from parent to child using arrow keys
-      const navigatedToChild = this.navigateToChildren(startElement);
-      if (navigatedToChild) {
-        return; // Successfully navigated to child, exit early
-      }
+  private getSectionOf(element: HTMLElement): FocusSection | null {
+    if (this.sections.length === 0) {
+      return null;
     }
 
-    // Check for parent-child relationship navigation (child to parent)
-    const parentElement = this.checkParentNavigation(startElement, direction);
-
-    if (parentElement) {
-      try {
-        parentElement.focus({ preventScroll: false });
-        this.currentFocusIndex = this.focusableElements.indexOf(parentElement);
-        this.updateFocusClass(parentElement);
-      } catch (error) {
-        console.error('Error focusing parent element:', error);
-      }
-    } else {
-      // No parent navigation, try spatial navigation
-      const nextElement = this.findNextFocusable(startElement, direction);
-
-      if (nextElement) {
-        try {
-          nextElement.focus({ preventScroll: false });
-          this.currentFocusIndex = this.focusableElements.indexOf(nextElement);
-          this.updateFocusClass(nextElement);
-        } catch (error) {
-          console.error('Error focusing next element:', error);
-        }
+    let node: HTMLElement | null = element;
+    while (node) {
+      const current: HTMLElement = node;
+      const section = this.sections.find((s) => current.matches(s.selector));
+      if (section) {
+        return section;
       }
+      node = getComposedParent(node);
     }
-  }
-
-  /**
-   * Handles Enter key press on an element
-   * @param currentElement The currently focused element
-   */
-  private handleEnterKey(currentElement: HTMLElement): void {
-    if (currentElement && this.focusableElements.includes(currentElement)) {
-      // Apply visual effect
-      currentElement.style.transform = 'scale(0.95)';
-      setTimeout(() => {
-        if (this.activeElement === currentElement || document.activeElement === currentElement) {
-          currentElement.style.transform = 'scale(1.05)';
-        } else {
-          currentElement.style.transform = '';
-        }
-      }, 100);
-
-      // Check if this is a parent element that has children to focus
-      const navigatedToChild = this.navigateToChildren(currentElement);
 
-      // Only call the callback if we didn't navigate to a child
-      // This prevents the callback from being called when we're just navigating
-      if (!navigatedToChild && this.onSelectCallback) {
-        this.onSelectCallback(currentElement);
-      }
-    }
+    return null;
   }
 
   /**
-   * Finds the next element to focus in the given direction
+   * Resolves the element that should receive focus when entering a section
+   * @param id The section id
+   * @param fallback Element to use when the section has no enter rule (the spatial candidate)
    */
-  private findNextFocusable(currentElement: HTMLElement, direction: Direction): HTMLElement | null {
-    if (!currentElement) return null;
-
-    const currentRect = this.getRect(currentElement);
-    const currentCenter = this.getCenter(currentRect);
-
-    let bestCandidate: HTMLElement | null = null;
-    let minDistance = Infinity;
+  private getSectionEntry(id: string, fallback?: HTMLElement): HTMLElement | null {
+    const section = this.sections.find((s) => s.id === id);
+    if (!section) {
+      return null;
+    }
 
-    // Filter out the current element and invisible elements
-    const visibleFocusableElements = this.focusableElements.filter(
-      (el) => el !== currentElement && el.offsetParent !== null
+    const sectionElements = this.getNavigableElements().filter(
+      (el) => this.isVisible(el) && this.getSectionOf(el) === section
     );
-
-    visibleFocusableElements.forEach((candidate) => {
-      const candidateRect = this.getRect(candidate);
-      const candidateCenter = this.getCenter(candidateRect);
-
-      // Calculate the difference in center coordinates
-      const dx = candidateCenter.x - currentCenter.x;
-      const dy = candidateCenter.y - currentCenter.y;
-
-      let isSuitable = false;
-      let distance = Infinity;
-
-      switch (direction) {
-        case 'ArrowUp':
-          if (dy < 0) {
-            if (candidateRect.right > currentRect.left && candidateRect.left < currentRect.right) {
-              isSuitable = true;
-              distance = Math.abs(dy) + Math.abs(dx) * 0.3;
-              if (Math.abs(dx) < Math.min(currentRect.width, candidateRect.width) / 4) {
-                distance *= 0.8;
-              }
-            }
-          }
-          break;
-        case 'ArrowDown':
-          if (dy > 0) {
-            if (candidateRect.right > currentRect.left && candidateRect.left < currentRect.right) {
-              isSuitable = true;
-              distance = Math.abs(dy) + Math.abs(dx) * 0.3;
-              if (Math.abs(dx) < Math.min(currentRect.width, candidateRect.width) / 4) {
-                distance *= 0.8;
-              }
-            }
-          }
-          break;
-        case 'ArrowLeft':
-          if (dx < 0) {
-            if (candidateRect.bottom > currentRect.top && candidateRect.top < currentRect.bottom) {
-              isSuitable = true;
-              distance = Math.abs(dx) + Math.abs(dy) * 0.3;
-              if (Math.abs(dy) < Math.min(currentRect.height, candidateRect.height) / 4) {
-                distance *= 0.8;
-              }
-            }
-          }
-          break;
-        case 'ArrowRight':
-          if (dx > 0) {
-            if (candidateRect.bottom > currentRect.top && candidateRect.top < currentRect.bottom) {
-              isSuitable = true;
-              distance = Math.abs(dx) + Math.abs(dy) * 0.3;
-              if (Math.abs(dy) < Math.min(currentRect.height, candidateRect.height) / 4) {
-                distance *= 0.8;
-              }
-            }
-          }
-          break;
-      }
-
-      // Check if the candidate is not completely "behind" the current element
-      if (isSuitable) {
-        const projectionPoint = this.getProjection(currentRect, candidateRect, direction);
-
-        // Check if projection falls inside the candidate
-        let projectionOnCandidateAxis;
-        if (direction === 'ArrowUp' || direction === 'ArrowDown') {
-          projectionOnCandidateAxis =
-            projectionPoint >= candidateRect.left && projectionPoint <= candidateRect.right;
-        } else {
-          projectionOnCandidateAxis =
-            projectionPoint >= candidateRect.top && projectionPoint <= candidateRect.bottom;
-        }
-
-        if (!projectionOnCandidateAxis) {
-          // If the projection does not fall, the candidate may be too far
-          distance *= 1.5;
-        }
-      }
-
-      if (isSuitable && distance < minDistance) {
-        minDistance = distance;
-        bestCandidate = candidate;
-      }
+    return resolveSectionEntry(section, sectionElements, {
+      lastFocused: this.sectionMemory.get(id),
+      isDefault: (el) => !!section.defaultElement && el.matches(section.defaultElement),
+      fallback,
     });
-
-    return bestCandidate;
   }
 
   /**
@@ -530,12 +2601,10 @@ export class FocusEngine {
       return null; // Not a child element
     }
 
-    // Find parent elements that match the child's parent ID
-    const parentElements = this.focusableElements.filter(
-      (el) => el.getAttribute(this.parentAttr) === childOfValue
-    );
+    // A group may have several parents; the first visible one is used
+    const parentElement = this.getVisibleParent(childOfValue);
 
-    if (parentElements.length === 0) {
+    if (!parentElement) {
       return null; // No matching parent found
     }
 
@@ -550,12 +2619,18 @@ export class FocusEngine {
       childOfValue
     );
 
-    if (shouldNavigateToParent) {
-      // Find the closest or designated parent
-      return parentElements[0]; // For now, just take the first parent
-    }
+    return shouldNavigateToParent ? parentElement : null;
+  }
 
-    return null;
+  /**
+   * Finds the first navigable and visible parent of a group
+   */
+  private getVisibleParent(groupId: string): HTMLElement | null {
+    const navigable = this.getNavigableElements();
+    return this.getHierarchy().getParent(
+      groupId,
+      (el) => navigable.includes(el) && this.isVisible(el)
+    );
   }
 
   /**
@@ -566,79 +2641,41 @@ export class FocusEngine {
     direction: Direction,
     parentId: string
   ): boolean {
-    // Get the navigation direction based on parent position
-    let navigationDirection: Direction;
-
-    switch (this.parentPosition) {
-      case 'left':
-        navigationDirection = 'ArrowLeft';
-        break;
-      case 'right':
-        navigationDirection = 'ArrowRight';
-        break;
-      default:
-        navigationDirection = 'ArrowLeft'; // Default behavior
-    }
-
-    // Check if the pressed direction matches the navigation direction for the parent position
-    if (direction !== navigationDirection) {
+    const parentElement = this.getVisibleParent(parentId);
+    if (!parentElement) {
       return false;
     }
 
-    // Get all elements with the same parent
-    const siblingsWithSameParent = this.focusableElements.filter(
-      (el) => el.getAttribute(this.childAttr) === parentId && el.offsetParent !== null
-    );
-
-    // Check if element is at the edge in the direction of the parent
-    let isAtEdge = false;
-
-    switch (this.parentPosition) {
-      case 'left':
-        isAtEdge = this.isElementAtLeftEdge(currentElement, siblingsWithSameParent);
-        break;
-      case 'right':
-        isAtEdge = this.isElementAtRightEdge(currentElement, siblingsWithSameParent);
-        break;
-      default:
-        isAtEdge = this.isElementAtLeftEdge(currentElement, siblingsWithSameParent);
-    }
-
-    if (!isAtEdge) {
+    const side = this.getParentSide(parentElement);
+    if (direction !== getParentDirection(side)) {
       return false;
     }
 
-    // Find the parent element
-    const parentElements = this.focusableElements.filter(
-      (el) => el.getAttribute(this.parentAttr) === parentId && el.offsetParent !== null
+    // Other visible elements with the same parent
+    const siblings = this.getNavigableElements().filter(
+      (el) =>
+        el !== currentElement && el.getAttribute(this.childAttr) === parentId && this.isVisible(el)
     );
 
-    if (parentElements.length === 0) {
-      return false;
-    }
-
-    // Check if parent element is in the correct position relative to the current element
-    const parentElement = parentElements[0];
-    const parentRect = this.getRect(parentElement);
-    const currentRect = this.getRect(currentElement);
-
-    // Check position based on parent position
-    switch (this.parentPosition) {
-      case 'left':
-        return parentRect.right <= currentRect.left;
-      case 'right':
-        return parentRect.left >= currentRect.right;
-      default:
-        return parentRect.right <= currentRect.left;
-    }
+    return shouldReturnToParent(
+      this.getRect(currentElement),
+      siblings.map((el) => this.getRect(el)),
+      this.getRect(parentElement),
+      direction,
+      side
+    );
   }
 
   /**
    * Navigates from a parent element to its children
    * @param parentElement The parent element
+   * @param direction The navigation direction, or null when entering with Enter
    * @returns True if navigation to a child occurred
    */
-  private navigateToChildren(parentElement: HTMLElement): boolean {
+  private navigateToChildren(
+    parentElement: HTMLElement,
+    direction: Direction | null = null
+  ): boolean {
     const parentId = parentElement.getAttribute(this.parentAttr);
     if (!parentId) {
       return false; // Not a parent element
@@ -646,30 +2683,25 @@ export class FocusEngine {
 
     // Find child elements with this parent ID
     // Filter for visible elements - check both offsetParent and computed style
-    const childElements = this.focusableElements.filter((el) => {
+    const childElements = this.getNavigableElements().filter((el) => {
       if (el.getAttribute(this.childAttr) !== parentId) {
         return false;
       }
 
       // Check if element is visible
-      if (el.offsetParent === null) {
+      if (!this.isVisible(el)) {
         return false;
       }
 
       // Also check computed style visibility for more reliability
-      const style = window.getComputedStyle(el);
-      if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') {
-        return false;
-      }
-
-      return true;
+      return this.isShownByStyle(el);
     });
 
     if (childElements.length === 0) {
       // If we couldn't find any visible children, try without the extra style checks
       // as a fallback, in case the elements are just being displayed differently
-      const fallbackChildren = this.focusableElements.filter(
-        (el) => el.getAttribute(this.childAttr) === parentId && el.offsetParent !== null
+      const fallbackChildren = this.getNavigableElements().filter(
+        (el) => el.getAttribute(this.childAttr) === parentId && this.isVisible(el)
       );
 
       if (fallbackChildren.length === 0) {
@@ -677,44 +2709,39 @@ export class FocusEngine {
       }
 
       // Use the fallback children
-      return this.focusChild(fallbackChildren, parentId);
+      return this.focusChild(fallbackChildren, parentId, direction);
     }
 
     // We have visible children, focus one of them
-    return this.focusChild(childElements, parentId);
+    return this.focusChild(childElements, parentId, direction);
   }
 
   /**
    * Helper method to focus the appropriate child based on previous history
    * @param childElements Array of potential child elements to focus
    * @param parentId The parent ID for retrieving last visited child
+   * @param direction The navigation direction, or null when entering with Enter
    * @returns True if a child was successfully focused
    */
-  private focusChild(childElements: HTMLElement[], parentId: string): boolean {
-    // First check if we have a "last visited" child for this parent
-    const lastVisitedChild = this.lastParentMap.get(parentId);
-
-    let targetChild: HTMLElement | undefined;
-
-    if (lastVisitedChild && childElements.includes(lastVisitedChild)) {
-      // We have a previously visited child, focus that one
-      targetChild = lastVisitedChild;
-    } else {
-      // No previously visited child, go to the first child
-      targetChild = childElements[0];
-    }
+  private focusChild(
+    childElements: HTMLElement[],
+    parentId: string,
+    direction: Direction | null
+  ): boolean {
+    // Prefer the last visited child of this parent, then the first one
+    const targetChild = pickChild(childElements, this.lastParentMap.get(parentId));
 
     if (targetChild) {
       try {
         // Ensure the child is visible before trying to focus it
-        if (targetChild.offsetParent === null) {
+        if (!this.isVisible(targetChild)) {
           console.error('Target child is not visible, cannot focus');
           return false;
         }
 
-        targetChild.focus({ preventScroll: false });
-        this.currentFocusIndex = this.focusableElements.indexOf(targetChild);
-        this.updateFocusClass(targetChild);
+        if (!this.moveFocus(targetChild, direction)) {
+          return false;
+        }
 
         // Store this child as the last visited for this parent
         this.lastParentMap.set(parentId, targetChild);
@@ -732,47 +2759,74 @@ export class FocusEngine {
    * Gets the bounding rectangle of an element
    */
   private getRect(element: HTMLElement): DOMRect {
-    return element.getBoundingClientRect();
+    return this.geometry ? this.geometry.getRect(element) : element.getBoundingClientRect();
   }
 
   /**
-   * Calculates the center point of a rectangle
+   * Checks whether an element is rendered, from the geometry cache if enabled
    */
-  private getCenter(rect: DOMRect): Point {
-    return {
-      x: rect.left + rect.width / 2,
-      y: rect.top + rect.height / 2,
-    };
+  private isVisible(element: HTMLElement): boolean {
+    return this.geometry ? this.geometry.isVisible(element) : element.offsetParent !== null;
   }
 
   /**
-   * Calculates the projection of a rectangle's center onto the axis of another
-   * in the given direction
+   * Checks whether an element is shown according to its computed style
    */
-  private getProjection(
-    currentRect: DOMRect,
-    candidateRect: DOMRect,
-    direction: Direction
-  ): number {
-    // Get only the necessary candidateCenter, currentCenter is not used in this method
-    const candidateCenter = this.getCenter(candidateRect);
+  private isShownByStyle(element: HTMLElement): boolean {
+    if (this.geometry) {
+      return this.geometry.isShownByStyle(element);
+    }
+
+    const style = window.getComputedStyle(element);
+    return style.display !== 'none' && style.visibility !== 'hidden' && style.opacity !== '0';
+  }
+
+  /**
+   * Returns the writing flow an element is laid out in, which is the flow of its container.
+   * Flows are cached per container until the DOM changes
+   */
+  private getWritingFlow(element: HTMLElement): WritingFlow {
+    const container = getComposedParent(element) || element;
+    let flow = this.writingFlows.get(container);
+    if (!flow) {
+      flow = this.readWritingFlow(container);
+      this.writingFlows.set(container, flow);
+    }
+    return flow;
+  }
 
-    switch (direction) {
-      case 'ArrowUp':
-      case 'ArrowDown':
-        // Project the candidate's center on the current horizontal line
-        if (candidateCenter.x < currentRect.left) return currentRect.left;
-        if (candidateCenter.x > currentRect.right) return currentRect.right;
-        return candidateCenter.x;
-      case 'ArrowLeft':
-      case 'ArrowRight':
-        // Project the candidate's center on the current vertical line
-        if (candidateCenter.y < currentRect.top) return currentRect.top;
-        if (candidateCenter.y > currentRect.bottom) return currentRect.bottom;
-        return candidateCenter.y;
-      default:
-        return 0;
+  /**
+   * Reads the writing flow of an element from its dir attribute and computed style.
+   * Walks up to the nearest ancestor that sets them where computed styles are not inherited
+   */
+  private readWritingFlow(element: HTMLElement): WritingFlow {
+    let direction: WritingFlow['direction'] | null = null;
+    let writingMode: WritingMode | null = null;
+
+    let node: HTMLElement | null = element;
+    while (node && (!direction || !writingMode)) {
+      const style = window.getComputedStyle(node);
+      if (!direction) {
+        // dir="auto" depends on the text, only the computed direction knows the result
+        const attribute = node.getAttribute('dir');
+        const value = attribute === 'ltr' || attribute === 'rtl' ? attribute : style.direction;
+        if (value === 'ltr' || value === 'rtl') {
+          direction = value;
+        }
+      }
+      if (!writingMode) {
+        const value = style.getPropertyValue('writing-mode') as WritingMode;
+        if (WRITING_MODES.includes(value)) {
+          writingMode = value;
+        }
+      }
+      node = getComposedParent(node);
     }
+
+    return {
+      direction: direction || DEFAULT_FLOW.direction,
+      writingMode: writingMode || DEFAULT_FLOW.writingMode,
+    };
   }
 
   /**
@@ -788,6 +2842,32 @@ export class FocusEngine {
    */
   public destroy(): void {
     this.clearFocusEventListeners();
+    this.root.removeEventListener('keydown', this.handleKeyDown as EventListener);
+    this.root.removeEventListener('keyup', this.handleKeyUp as EventListener);
+    this.getOwnerDocument().removeEventListener('keydown', this.handleOuterKeyDown);
+    this.getOwnerDocument().removeEventListener('keyup', this.handleOuterKeyUp);
+    this.keyRepeat?.clear();
+    this.cancelLongPress();
+    this.cancelTransition();
+    this.cancelDwell();
+    this.gamepad?.stop();
+    this.geometry?.disconnect();
+    window.removeEventListener('message', this.handleFrameMessage);
+    this.root.removeEventListener('mousemove', this.handlePointerMove as EventListener);
+    this.root.removeEventListener('click', this.handlePointerClick as EventListener);
+    this.root.removeEventListener('keydown', this.handleModalityKeyDown, true);
+    if (this.pointer) {
+      this.getRootElement().classList.remove(this.pointerClassName);
+    }
+    this.inputModality = 'key';
+    this.scrollManager?.destroy();
+    this.cancelPendingMaterialization();
+    this.cancelPendingRestore();
+
+    if (this.mutationObserver) {
+      this.mutationObserver.disconnect();
+      this.mutationObserver = null;
+    }
 
     // Remove focus class from the last focused element
     if (this.previouslyFocusedElement) {
@@ -802,6 +2882,12 @@ export class FocusEngine {
 
     // Clear parent tracking
     this.lastParentMap.clear();
+    this.hierarchy = null;
+    this.writingFlows = new WeakMap();
+    this.sectionMemory.clear();
+    this.gridLayouts.clear();
+    this.focusHistory = [];
+    this.layers = [];
   }
 
   /**
@@ -811,103 +2897,38 @@ export class FocusEngine {
    * @returns True if we should navigate to children
    */
   private shouldNavigateToChildren(currentElement: HTMLElement, direction: Direction): boolean {
-    // Get the navigation direction based on parent position
-    let navigationDirection: Direction;
-
-    switch (this.parentPosition) {
-      case 'left':
-        navigationDirection = 'ArrowRight';
-        break;
-      case 'right':
-        navigationDirection = 'ArrowLeft';
-        break;
-      default:
-        navigationDirection = 'ArrowRight'; // Default behavior
-    }
-
-    // Only navigate to children when the direction matches
-    if (direction !== navigationDirection) {
-      return false;
-    }
-
     const parentId = currentElement.getAttribute(this.parentAttr);
     if (!parentId) {
       return false; // Not a parent element
     }
 
-    // Find child elements with this parent ID
-    const childElements = this.focusableElements.filter(
-      (el) => el.getAttribute(this.childAttr) === parentId && el.offsetParent !== null
-    );
-
-    if (childElements.length === 0) {
-      return false; // No visible children
-    }
-
-    // Check if the children are positioned correctly relative to the parent
-    const firstChild = childElements[0];
-    const parentRect = this.getRect(currentElement);
-    const childRect = this.getRect(firstChild);
-
-    // Check position based on parent position
-    switch (this.parentPosition) {
-      case 'left':
-        return childRect.left >= parentRect.right - 5;
-      case 'right':
-        return childRect.right <= parentRect.left + 5;
-      default:
-        return childRect.left >= parentRect.right - 5;
-    }
-  }
-
-  /**
-   * Checks if an element is at the left edge of its sibling group
-   */
-  private isElementAtLeftEdge(element: HTMLElement, siblingGroup: HTMLElement[]): boolean {
-    // If element is alone in group, it's always at the edge
-    if (siblingGroup.length <= 1) {
-      return true;
+    const side = this.getParentSide(currentElement);
+    if (direction !== getChildrenDirection(side)) {
+      return false;
     }
 
-    const elementRect = this.getRect(element);
-
-    // Check if there are other elements to the left of the current one
-    const hasLeftSibling = siblingGroup.some((sibling) => {
-      if (sibling === element) return false;
-      const siblingRect = this.getRect(sibling);
-      return (
-        siblingRect.right <= elementRect.left &&
-        siblingRect.bottom > elementRect.top &&
-        siblingRect.top < elementRect.bottom
-      );
-    });
+    const firstChild = this.getNavigableElements().find(
+      (el) => el.getAttribute(this.childAttr) === parentId && this.isVisible(el)
+    );
 
-    return !hasLeftSibling;
+    return shouldEnterChildren(
+      this.getRect(currentElement),
+      firstChild ? this.getRect(firstChild) : null,
+      direction,
+      side
+    );
   }
 
   /**
-   * Checks if an element is at the right edge of its sibling group
+   * Resolves the physical side a parent sits on relative to its children, from its own
+   * position attribute or the engine default, in the writing flow of the parent's container
    */
-  private isElementAtRightEdge(element: HTMLElement, siblingGroup: HTMLElement[]): boolean {
-    // If element is alone in group, it's always at the edge
-    if (siblingGroup.length <= 1) {
-      return true;
-    }
-
-    const elementRect = this.getRect(element);
-
-    // Check if there are other elements to the right of the current one
-    const hasRightSibling = siblingGroup.some((sibling) => {
-      if (sibling === element) return false;
-      const siblingRect = this.getRect(sibling);
-      return (
-        siblingRect.left >= elementRect.right &&
-        siblingRect.bottom > elementRect.top &&
-        siblingRect.top < elementRect.bottom
-      );
-    });
-
-    return !hasRightSibling;
+  private getParentSide(parentElement: HTMLElement): PhysicalSide {
+    const value = parentElement.getAttribute(this.parentPositionAttr) as ParentPosition | null;
+    const position = value && PARENT_POSITIONS.includes(value) ? value : this.parentPosition;
+    return position === 'start' || position === 'end'
+      ? resolveParentPosition(position, this.getWritingFlow(parentElement))
+      : position;
   }
 }
 
@@ -0,0 +1,148 @@
+/**
+ * Key maps for the FocusEngine keyboard input layer.
+ * A key map lists, for every engine action, the `KeyboardEvent.key` values
+ * and legacy `keyCode` numbers that should trigger it.
+ */
+
+import type { NavigationDirection } from './flow';
+
+/**
+ * Actions the input layer can trigger. Logical directions follow the flow of the focused element
+ */
+export type InputAction = NavigationDirection | 'Enter' | 'Back';
+
+/**
+ * Maps engine actions to key names (`event.key`) or key codes (`event.keyCode`)
+ */
+export type KeyMap = Partial<Record<InputAction, Array<string | number>>>;
+
+/**
+ * Names of the built-in platform key maps
+ */
+export type KeyMapPreset = 'desktop' | 'tizen' | 'webos' | 'androidtv';
+
+/**
+ * Built-in key maps for desktop browsers and common TV platforms
+ */
+export const KEY_MAPS: Record<KeyMapPreset, KeyMap> = {
+  desktop: {
+    ArrowUp: ['ArrowUp', 'Up', 38],
+    ArrowDown: ['ArrowDown', 'Down', 40],
+    ArrowLeft: ['ArrowLeft', 'Left', 37],
+    ArrowRight: ['ArrowRight', 'Right', 39],
+    Enter: ['Enter', 13],
+    Back: ['Escape', 'Esc', 'BrowserBack', 27],
+  },
+  // Samsung Tizen remotes report Return as XF86Back / 10009
+  tizen: {
+    ArrowUp: [38],
+    ArrowDown: [40],
+    ArrowLeft: [37],
+    ArrowRight: [39],
+    Enter: [13],
+    Back: ['XF86Back', 10009],
+  },
+  // LG webOS remotes report Back as GoBack / 461
+  webos: {
+    ArrowUp: [38],
+    ArrowDown: [40],
+    ArrowLeft: [37],
+    ArrowRight: [39],
+    Enter: [13],
+    Back: ['GoBack', 461],
+  },
+  // Android TV WebViews forward the D-pad as arrows, plus DPAD_CENTER (23) and BACK (4)
+  androidtv: {
+    ArrowUp: [38],
+    ArrowDown: [40],
+    ArrowLeft: [37],
+    ArrowRight: [39],
+    Enter: ['Select', 23, 13],
+    Back: ['GoBack', 'BrowserBack', 4],
+  },
+};
+
+/**
+ * Merges several key maps into one, concatenating the keys of each action
+ */
+export function mergeKeyMaps(...keyMaps: KeyMap[]): KeyMap {
+  const merged: KeyMap = {};
+
+  keyMaps.forEach((keyMap) => {
+    (Object.keys(keyMap) as InputAction[]).forEach((action) => {
+      const keys = merged[action] || [];
+      (keyMap[action] || []).forEach((key) => {
+        if (!keys.includes(key)) {
+          keys.push(key);
+        }
+      });
+      merged[action] = keys;
+    });
+  });
+
+  return merged;
+}
+
+/**
+ * Default key map: all built-in platform maps combined,
+ * so one engine config works on desktop and on TVs
+ */
+export const DEFAULT_KEY_MAP: KeyMap = mergeKeyMaps(
+  KEY_MAPS.desktop,
+  KEY_MAPS.tizen,
+  KEY_MAPS.webos,
+  KEY_MAPS.androidtv
+);
+
+/**
+ * Resolves the engine action for a keyboard event
+ * @returns The matching action, or null if the key is not mapped
+ */
+export function resolveKeyAction(event: KeyboardEvent, keyMap: KeyMap): InputAction | null {
+  const actions = Object.keys(keyMap) as InputAction[];
+
+  // Prefer key names, they are more reliable than legacy key codes
+  const byKey = actions.find((action) => keyMap[action]?.includes(event.key));
+  if (byKey) {
+    return byKey;
+  }
+
+  const keyCode = event.keyCode || event.which;
+  if (!keyCode) {
+    return null;
+  }
+
+  return actions.find((action) => keyMap[action]?.includes(keyCode)) || null;
+}
+
+/**
+ * Actions a single-line text field keeps for itself: the caret moves along the line and
+ * Enter submits
+ */
+const TEXT_INPUT_ACTIONS: InputAction[] = [
+  'ArrowLeft',
+  'ArrowRight',
+  'inline-start',
+  'inline-end',
+  'Enter',
+];
+
+/**
+ * Checks whether a key belongs to the form field or editable element it was pressed in.
+ * Inputs keep horizontal arrows and Enter; text areas, selects and editable content keep
+ * every key but Back, so Back still leaves them
+ */
+export function isEditingKey(event: KeyboardEvent, action: InputAction): boolean {
+  const target = event.composedPath()[0] || event.target;
+  if (!(target instanceof HTMLElement)) {
+    return false;
+  }
+
+  if (target.tagName === 'INPUT') {
+    return TEXT_INPUT_ACTIONS.includes(action);
+  }
+  if (target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable) {
+    return action !== 'Back';
+  }
+  return false;
+}
@@ -0,0 +1,91 @@
+/**
+ * Auto-repeat throttling shared by the keyboard and gamepad inputs:
+ * a held input fires once, waits for an initial delay, then repeats
+ * at an interval that shrinks with every repeat.
+ */
+
+/**
+ * Timing of auto-repeat
+ */
+export interface RepeatOptions {
+  /** Delay before a held input starts repeating, in milliseconds (default: 400) */
+  delay?: number;
+  /** First repeat interval, in milliseconds (default: 200) */
+  interval?: number;
+  /** Factor applied to the interval after each repeat (default: 0.8) */
+  acceleration?: number;
+  /** Shortest interval reached by acceleration, in milliseconds (default: 50) */
+  minInterval?: number;
+}
+
+interface HeldInput {
+  nextRepeatAt: number;
+  interval: number;
+}
+
+/**
+ * Tracks held inputs and decides when they may repeat
+ */
+export class RepeatThrottle<K> {
+  private delay: number;
+  private interval: number;
+  private acceleration: number;
+  private minInterval: number;
+  private held: Map<K, HeldInput> = new Map();
+
+  constructor(options: RepeatOptions = {}) {
+    this.delay = options.delay ?? 400;
+    this.interval = options.interval ?? 200;
+    this.acceleration = options.acceleration ?? 0.8;
+    this.minInterval = options.minInterval ?? 50;
+  }
+
+  /**
+   * Records a fresh press. The press itself always fires
+   */
+  public press(key: K): void {
+    this.held.set(key, { nextRepeatAt: Date.now() + this.delay, interval: this.interval });
+  }
+
+  /**
+   * Checks whether a held input may repeat now, and schedules the next repeat if so
+   */
+  public tryRepeat(key: K): boolean {
+    const held = this.held.get(key);
+    if (!held) {
+      // Held since before tracking started, treat it as a fresh press
+      this.press(key);
+      return true;
+    }
+
+    const now = Date.now();
+    if (now < held.nextRepeatAt) {
+      return false;
+    }
+
+    held.nextRepeatAt = now + held.interval;
+    held.interval = Math.max(this.minInterval, held.interval * this.acceleration);
+    return true;
+  }
+
+  /**
+   * Checks whether an input is held
+   */
+  public isHeld(key: K): boolean {
+    return this.held.has(key);
+  }
+
+  /**
+   * Forgets a released input
+   */
+  public release(key: K): void {
+    this.held.delete(key);
+  }
+
+  /**
+   * Forgets all held inputs
+   */
+  public clear(): void {
+    this.held.clear();
+  }
+}
@@ -0,0 +1,305 @@
+/**
+ * Scroll management for FocusEngine: keeps the focused element in view
+ * of its scroll containers and of the window, with optional smooth animation.
+ */
+
+import { getComposedParent } from './shadow';
+import type { Rect } from './strategies';
+
+/**
+ * How a scroll container keeps the focused element in view
+ * - 'center': keep the element centred
+ * - 'padding': scroll only as much as needed to keep a margin around the element
+ * - 'page': scroll by whole pages when the element leaves the visible page
+ * - 'none': never scroll this container
+ */
+export type ScrollMode = 'center' | 'padding' | 'page' | 'none';
+
+/**
+ * Options for scroll management
+ */
+export interface ScrollOptions {
+  /** Default mode for all containers (default: 'padding') */
+  mode?: ScrollMode;
+  /** Margin in pixels kept around the element in 'padding' mode (default: 0) */
+  padding?: number;
+  /** Animate scrolling (default: true) */
+  smooth?: boolean;
+  /** Animation duration in milliseconds (default: 300) */
+  duration?: number;
+}
+
+/**
+ * Attribute that marks a scroll container and sets its mode
+ */
+export const SCROLL_MODE_ATTR = 'data-focus-scroll';
+
+/**
+ * Attribute that sets the padding of a scroll container
+ */
+export const SCROLL_PADDING_ATTR = 'data-focus-scroll-padding';
+
+type Axis = 'x' | 'y';
+
+/**
+ * A scrollable area: an element or the window
+ */
+interface ScrollTarget {
+  key: Element | Window;
+  mode: ScrollMode;
+  padding: number;
+  axes: Axis[];
+  rect: Rect;
+  getScroll(axis: Axis): number;
+  getMaxScroll(axis: Axis): number;
+  setScroll(axis: Axis, value: number): void;
+}
+
+interface Animation {
+  frame: number;
+  cancel(frame: number): void;
+}
+
+/**
+ * Keeps focused elements in view of their scroll containers
+ */
+export class ScrollManager {
+  private mode: ScrollMode;
+  private padding: number;
+  private smooth: boolean;
+  private duration: number;
+  private animations: Record<Axis, Map<Element | Window, Animation>> = {
+    x: new Map(),
+    y: new Map(),
+  };
+
+  constructor(options: ScrollOptions = {}) {
+    this.mode = options.mode || 'padding';
+    this.padding = options.padding ?? 0;
+    this.smooth = options.smooth ?? true;
+    this.duration = options.duration ?? 300;
+  }
+
+  /**
+   * Scrolls every container of the element, innermost first, then the window
+   */
+  public scrollIntoView(element: HTMLElement): void {
+    const elementRect = element.getBoundingClientRect();
+    // Shift caused by inner containers that have not finished scrolling yet
+    let offsetX = 0;
+    let offsetY = 0;
+
+    this.getScrollTargets(element).forEach((target) => {
+      if (target.mode === 'none') return;
+
+      const rect: Rect = {
+        top: elementRect.top - offsetY,
+        bottom: elementRect.bottom - offsetY,
+        left: elementRect.left - offsetX,
+        right: elementRect.right - offsetX,
+        width: elementRect.width,
+        height: elementRect.height,
+      };
+
+      target.axes.forEach((axis) => {
+        const delta = this.getScrollDelta(rect, target, axis);
+        if (delta === 0) return;
+
+        const from = target.getScroll(axis);
+        const to = Math.max(0, Math.min(target.getMaxScroll(axis), from + delta));
+        if (to === from) return;
+
+        this.animate(target, axis, from, to);
+        if (axis === 'x') {
+          offsetX += to - from;
+        } else {
+          offsetY += to - from;
+        }
+      });
+    });
+  }
+
+  /**
+   * Checks whether a scroll animation is running
+   */
+  public isAnimating(): boolean {
+    return this.animations.x.size > 0 || this.animations.y.size > 0;
+  }
+
+  /**
+   * Stops all running animations
+   */
+  public destroy(): void {
+    (['x', 'y'] as Axis[]).forEach((axis) => {
+      this.animations[axis].forEach((animation) => animation.cancel(animation.frame));
+      this.animations[axis].clear();
+    });
+  }
+
+  /**
+   * Collects the scroll containers of an element from the innermost to the window
+   */
+  private getScrollTargets(element: HTMLElement): ScrollTarget[] {
+    const targets: ScrollTarget[] = [];
+
+    // Containers outside a shadow root scroll its content too
+    let node = getComposedParent(element);
+    while (node && node !== document.body && node !== document.documentElement) {
+      const target = this.getElementTarget(node);
+      if (target) {
+        targets.push(target);
+      }
+      node = getComposedParent(node);
+    }
+
+    targets.push(this.getWindowTarget());
+    return targets;
+  }
+
+  /**
+   * Describes an element as a scroll target, or returns null if it does not scroll
+   */
+  private getElementTarget(container: HTMLElement): ScrollTarget | null {
+    const modeAttr = container.getAttribute(SCROLL_MODE_ATTR) as ScrollMode | null;
+    const style = window.getComputedStyle(container);
+    const canScroll = (overflow: string) => ['auto', 'scroll', 'hidden'].includes(overflow);
+
+    const axes: Axis[] = [];
+    if (container.scrollWidth > container.clientWidth && (modeAttr || canScroll(style.overflowX))) {
+      axes.push('x');
+    }
+    if (
+      container.scrollHeight > container.clientHeight &&
+      (modeAttr || canScroll(style.overflowY))
+    ) {
+      axes.push('y');
+    }
+    if (axes.length === 0) {
+      return null;
+    }
+
+    const paddingAttr = container.getAttribute(SCROLL_PADDING_ATTR);
+
+    return {
+      key: container,
+      mode: modeAttr || this.mode,
+      padding: paddingAttr !== null ? Number(paddingAttr) || 0 : this.padding,
+      axes,
+      rect: container.getBoundingClientRect(),
+      getScroll: (axis) => (axis === 'x' ? container.scrollLeft : container.scrollTop),
+      getMaxScroll: (axis) =>
+        axis === 'x'
+          ? container.scrollWidth - container.clientWidth
+          : container.scrollHeight - container.clientHeight,
+      setScroll: (axis, value) => {
+        if (axis === 'x') {
+          container.scrollLeft = value;
+        } else {
+          container.scrollTop = value;
+        }
+      },
+    };
+  }
+
+  /**
+   * Describes the window as a scroll target
+   */
+  private getWindowTarget(): ScrollTarget {
+    const root = document.documentElement;
+    const width = window.innerWidth;
+    const height = window.innerHeight;
+
+    return {
+      key: window,
+      mode: (root.getAttribute(SCROLL_MODE_ATTR) as ScrollMode | null) || this.mode,
+      padding: this.padding,
+      axes: ['x', 'y'],
+      rect: { top: 0, left: 0, right: width, bottom: height, width, height },
+      getScroll: (axis) => (axis === 'x' ? window.scrollX : window.scrollY),
+      getMaxScroll: (axis) =>
+        axis === 'x'
+          ? Math.max(0, root.scrollWidth - width)
+          : Math.max(0, root.scrollHeight - height),
+      setScroll: (axis, value) => {
+        if (axis === 'x') {
+          window.scrollTo(value, window.scrollY);
+        } else {
+          window.scrollTo(window.scrollX, value);
+        }
+      },
+    };
+  }
+
+  /**
+   * Calculates how far a target must scroll on an axis to apply its mode
+   */
+  private getScrollDelta(elementRect: Rect, target: ScrollTarget, axis: Axis): number {
+    const start = axis === 'x' ? elementRect.left : elementRect.top;
+    const end = axis === 'x' ? elementRect.right : elementRect.bottom;
+    const viewStart = axis === 'x' ? target.rect.left : target.rect.top;
+    const viewEnd = axis === 'x' ? target.rect.right : target.rect.bottom;
+    const viewSize = viewEnd - viewStart;
+
+    switch (target.mode) {
+      case 'center':
+        return (start + end) / 2 - (viewStart + viewEnd) / 2;
+      case 'page': {
+        if (start >= viewStart && end <= viewEnd) return 0;
+        const pages = Math.floor((start - viewStart) / viewSize);
+        // The element starts on the current page but is cut off at its end
+        return (pages === 0 ? 1 : pages) * viewSize;
+      }
+      case 'padding': {
+        const padding = Math.min(target.padding, viewSize / 2);
+        if (start < viewStart + padding) return start - (viewStart + padding);
+        if (end > viewEnd - padding) return end - (viewEnd - padding);
+        return 0;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * Scrolls a target on an axis, animated when smooth scrolling is enabled
+   */
+  private animate(target: ScrollTarget, axis: Axis, from: number, to: number): void {
+    const key = target.key;
+    const animations = this.animations[axis];
+    const previous = animations.get(key);
+    if (previous) {
+      previous.cancel(previous.frame);
+      animations.delete(key);
+    }
+
+    if (!this.smooth || this.duration <= 0) {
+      target.setScroll(axis, to);
+      return;
+    }
+
+    const requestFrame =
+      typeof requestAnimationFrame === 'function'
+        ? requestAnimationFrame
+        : (callback: FrameRequestCallback) => window.setTimeout(() => callback(Date.now()), 16);
+    const cancelFrame =
+      typeof cancelAnimationFrame === 'function' ? cancelAnimationFrame : window.clearTimeout;
+
+    const startTime = Date.now();
+    const step = () => {
+      const progress = Math.min(1, (Date.now() - startTime) / this.duration);
+      // Ease in-out
+      const eased =
+        progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+      target.setScroll(axis, from + (to - from) * eased);
+
+      if (progress < 1) {
+        animation.frame = requestFrame(step);
+      } else {
+        animations.delete(key);
+      }
+    };
+
+    const animation: Animation = { frame: requestFrame(step), cancel: cancelFrame };
+    animations.set(key, animation);
+  }
+}
@@ -0,0 +1,129 @@
+/**
+ * Shadow DOM traversal: queries and ancestor walks that cross open shadow roots,
+ * so focusable parts of web components can take part in navigation.
+ */
+
+/**
+ * Options for shadow DOM traversal
+ */
+export interface ShadowDomOptions {
+  /** How many levels of nested shadow roots are searched (default: 3) */
+  maxDepth?: number;
+}
+
+/**
+ * Checks whether a node is a shadow root
+ */
+function isShadowRoot(node: Node): node is ShadowRoot {
+  return typeof ShadowRoot !== 'undefined' && node instanceof ShadowRoot;
+}
+
+/**
+ * Finds the elements matching a selector below a root, including those in open shadow roots,
+ * in tree order with shadow content following its host
+ * @param root The node to search
+ * @param selector CSS selector
+ * @param maxDepth How many levels of shadow roots to enter, 0 to stay in the light DOM
+ */
+export function querySelectorAllDeep(
+  root: ParentNode,
+  selector: string,
+  maxDepth: number
+): HTMLElement[] {
+  const results: HTMLElement[] = [];
+
+  const visit = (node: ParentNode, depth: number) => {
+    if (depth >= maxDepth) {
+      results.push(...Array.from(node.querySelectorAll<HTMLElement>(selector)));
+      return;
+    }
+
+    node.querySelectorAll<HTMLElement>('*').forEach((element) => {
+      if (element.matches(selector)) {
+        results.push(element);
+      }
+      if (element.shadowRoot) {
+        visit(element.shadowRoot, depth + 1);
+      }
+    });
+  };
+
+  // A host passed as the root has its shadow content searched too
+  if (root instanceof Element && root.shadowRoot && maxDepth > 0) {
+    visit(root.shadowRoot, 1);
+  }
+  visit(root, 0);
+  return results;
+}
+
+/**
+ * Finds the open shadow roots below a root, down to a depth
+ */
+export function getShadowRootsDeep(root: ParentNode, maxDepth: number): ShadowRoot[] {
+  const roots: ShadowRoot[] = [];
+
+  const visit = (node: ParentNode, depth: number) => {
+    if (depth >= maxDepth) return;
+
+    node.querySelectorAll('*').forEach((element) => {
+      if (element.shadowRoot) {
+        roots.push(element.shadowRoot);
+        visit(element.shadowRoot, depth + 1);
+      }
+    });
+  };
+
+  if (root instanceof Element && root.shadowRoot && maxDepth > 0) {
+    roots.push(root.shadowRoot);
+    visit(root.shadowRoot, 1);
+  }
+  visit(root, 0);
+  return roots;
+}
+
+/**
+ * Returns the parent of an element, stepping from the top of a shadow tree to its host
+ */
+export function getComposedParent(element: Element): HTMLElement | null {
+  if (element.parentElement) {
+    return element.parentElement;
+  }
+
+  const root = element.getRootNode();
+  return isShadowRoot(root) ? (root.host as HTMLElement) : null;
+}
+
+/**
+ * Checks whether a container contains an element, also through shadow hosts
+ */
+export function containsDeep(container: Node, element: Element): boolean {
+  let node: Element | null = element;
+
+  while (node) {
+    if (container.contains(node)) {
+      return true;
+    }
+    const root: Node = node.getRootNode();
+    node = isShadowRoot(root) ? root.host : null;
+  }
+
+  return false;
+}
+
+/**
+ * Resolves the focused element through shadow roots, since `activeElement` stops at the host
+ * @param root The document or shadow root to start from
+ * @param maxDepth How many levels of shadow roots to descend
+ */
+export function getDeepActiveElement(
+  root: Document | ShadowRoot,
+  maxDepth: number
+): Element | null {
+  let active = root.activeElement;
+
+  for (let depth = 0; depth < maxDepth && active?.shadowRoot?.activeElement; depth++) {
+    active = active.shadowRoot.activeElement;
+  }
+
+  return active;
+}
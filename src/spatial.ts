@@ -0,0 +1,168 @@
+/**
+ * Spatial index: a uniform grid of cells over item rects, so a directional query
+ * scores nearby candidates first and stops once no farther one can win.
+ */
+
+import type { Direction } from './flow';
+import type { RectItem } from './edges';
+import type { Rect } from './strategies';
+
+/**
+ * Default cell size in pixels, about the size of a TV tile
+ */
+export const DEFAULT_CELL_SIZE = 200;
+
+interface IndexedItem<T> extends RectItem<T> {
+  /** Position in the original list, which breaks ties like a linear scan would */
+  order: number;
+}
+
+/**
+ * Uniform grid over a list of items
+ */
+export class SpatialIndex<T> {
+  private cells: Map<string, IndexedItem<T>[]> = new Map();
+  private entries: Map<T, IndexedItem<T>> = new Map();
+  private minCol = Infinity;
+  private maxCol = -Infinity;
+  private minRow = Infinity;
+  private maxRow = -Infinity;
+
+  /**
+   * @param items Items with their rects
+   * @param cellSize Cell size in pixels
+   */
+  constructor(
+    items: RectItem<T>[],
+    private cellSize: number = DEFAULT_CELL_SIZE
+  ) {
+    items.forEach((item, order) => this.insert({ ...item, order }));
+  }
+
+  /**
+   * Moves an item to a new rect, or adds it
+   * @param order Position of the item in the original list
+   */
+  public update(item: T, rect: Rect, order: number): void {
+    this.remove(item);
+    this.insert({ item, rect, order });
+  }
+
+  /**
+   * Removes an item, if it is indexed
+   */
+  public remove(item: T): void {
+    const entry = this.entries.get(item);
+    if (!entry) return;
+
+    this.entries.delete(item);
+    this.forEachCell(entry.rect, (key) => {
+      const cell = this.cells.get(key)?.filter((candidate) => candidate !== entry);
+      if (cell?.length) {
+        this.cells.set(key, cell);
+      } else {
+        this.cells.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Finds the best scored item beyond a rect in a direction, scanning lines of cells
+   * from near to far. Items that end before the rect's near edge are never scored.
+   * @param fromRect Rect the move starts from
+   * @param direction Navigation direction
+   * @param score Scores an item, lower is better, null if unsuitable
+   * @param bound A lower bound of a score as a factor of the gap along the direction;
+   * the scan stops once the gap of the next line exceeds the best score
+   * @returns The best item, the earliest in the original list on ties
+   */
+  public findBest(
+    fromRect: Rect,
+    direction: Direction,
+    score: (candidate: RectItem<T>) => number | null,
+    bound: number
+  ): T | null {
+    const horizontal = direction === 'ArrowLeft' || direction === 'ArrowRight';
+    const forward = direction === 'ArrowRight' || direction === 'ArrowDown';
+    const near = horizontal ? [fromRect.left, fromRect.right] : [fromRect.top, fromRect.bottom];
+    const [lineMin, lineMax] = horizontal ? [this.minCol, this.maxCol] : [this.minRow, this.maxRow];
+    const [crossMin, crossMax] = horizontal
+      ? [this.minRow, this.maxRow]
+      : [this.minCol, this.maxCol];
+
+    const seen = new Set<T>();
+    let best: IndexedItem<T> | null = null;
+    let bestScore = Infinity;
+
+    const start = forward
+      ? Math.max(lineMin, this.toCell(near[0]))
+      : Math.min(lineMax, this.toCell(near[1]));
+
+    for (let line = start; forward ? line <= lineMax : line >= lineMin; line += forward ? 1 : -1) {
+      // Items first met on this line are at least this far away along the direction.
+      // Only lines clear of the rect count, overlapping items can score below the bound
+      const gap = forward ? line * this.cellSize - near[1] : near[0] - (line + 1) * this.cellSize;
+      if (best && gap > 0 && gap * bound > bestScore) break;
+
+      for (let cross = crossMin; cross <= crossMax; cross++) {
+        const cell = this.cells.get(horizontal ? `${line}:${cross}` : `${cross}:${line}`) || [];
+
+        for (const candidate of cell) {
+          if (seen.has(candidate.item)) continue;
+          seen.add(candidate.item);
+
+          const value = score(candidate);
+          if (
+            value !== null &&
+            (value < bestScore || (value === bestScore && best && candidate.order < best.order))
+          ) {
+            bestScore = value;
+            best = candidate;
+          }
+        }
+      }
+    }
+
+    return best ? best.item : null;
+  }
+
+  private insert(entry: IndexedItem<T>): void {
+    this.entries.set(entry.item, entry);
+    this.forEachCell(entry.rect, (key) => {
+      const cell = this.cells.get(key);
+      if (cell) {
+        cell.push(entry);
+      } else {
+        this.cells.set(key, [entry]);
+      }
+    });
+  }
+
+  /**
+   * Calls a function with the key of every cell a rect covers. The bounds of the grid only
+   * grow, so a removed item at most leaves empty lines to scan
+   */
+  private forEachCell(rect: Rect, callback: (key: string) => void): void {
+    const [firstCol, lastCol] = this.toCells(rect.left, rect.right);
+    const [firstRow, lastRow] = this.toCells(rect.top, rect.bottom);
+
+    for (let col = firstCol; col <= lastCol; col++) {
+      for (let row = firstRow; row <= lastRow; row++) {
+        callback(`${col}:${row}`);
+      }
+    }
+
+    this.minCol = Math.min(this.minCol, firstCol);
+    this.maxCol = Math.max(this.maxCol, lastCol);
+    this.minRow = Math.min(this.minRow, firstRow);
+    this.maxRow = Math.max(this.maxRow, lastRow);
+  }
+
+  private toCell(coordinate: number): number {
+    return Math.floor(coordinate / this.cellSize);
+  }
+
+  private toCells(start: number, end: number): [number, number] {
+    return [this.toCell(start), this.toCell(Math.max(start, end))];
+  }
+}
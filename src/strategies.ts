@@ -0,0 +1,288 @@
+/**
+ * Spatial scoring strategies used by FocusEngine to rank navigation candidates.
+ * A strategy receives the rect of the current element, the rect of a candidate
+ * and the navigation direction, and returns a score (lower is better)
+ * or null if the candidate is unsuitable.
+ */
+
+import type { Direction } from './flow';
+
+/**
+ * Represents a point with x and y coordinates
+ */
+export interface Point {
+  x: number;
+  y: number;
+}
+
+/**
+ * Rectangle geometry used for scoring, compatible with DOMRect
+ */
+export interface Rect {
+  top: number;
+  left: number;
+  right: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Scores a candidate rect relative to the current rect in a direction
+ * @returns The score (lower is better), or null if the candidate is unsuitable
+ */
+export type ScoringStrategy = (
+  currentRect: Rect,
+  candidateRect: Rect,
+  direction: Direction
+) => number | null;
+
+/**
+ * Names of the built-in scoring strategies
+ */
+export type ScoringStrategyName = 'default' | 'w3c' | 'nearestEdge' | 'strict';
+
+/**
+ * Calculates the center point of a rectangle
+ */
+export function getCenter(rect: Rect): Point {
+  return {
+    x: rect.left + rect.width / 2,
+    y: rect.top + rect.height / 2,
+  };
+}
+
+/**
+ * Calculates the projection of a rectangle's center onto the axis of another
+ * in the given direction
+ */
+export function getProjection(
+  currentRect: Rect,
+  candidateRect: Rect,
+  direction: Direction
+): number {
+  const candidateCenter = getCenter(candidateRect);
+
+  switch (direction) {
+    case 'ArrowUp':
+    case 'ArrowDown':
+      // Project the candidate's center on the current horizontal line
+      if (candidateCenter.x < currentRect.left) return currentRect.left;
+      if (candidateCenter.x > currentRect.right) return currentRect.right;
+      return candidateCenter.x;
+    case 'ArrowLeft':
+    case 'ArrowRight':
+      // Project the candidate's center on the current vertical line
+      if (candidateCenter.y < currentRect.top) return currentRect.top;
+      if (candidateCenter.y > currentRect.bottom) return currentRect.bottom;
+      return candidateCenter.y;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Checks whether a direction moves along the vertical axis
+ */
+function isVertical(direction: Direction): boolean {
+  return direction === 'ArrowUp' || direction === 'ArrowDown';
+}
+
+/**
+ * Gap between two ranges, 0 if they overlap
+ */
+function rangeGap(startA: number, endA: number, startB: number, endB: number): number {
+  return Math.max(0, startB - endA, startA - endB);
+}
+
+/**
+ * Checks whether the candidate lies beyond the current rect in the direction
+ */
+function isInDirection(currentRect: Rect, candidateRect: Rect, direction: Direction): boolean {
+  switch (direction) {
+    case 'ArrowUp':
+      return candidateRect.top < currentRect.top && candidateRect.bottom < currentRect.bottom;
+    case 'ArrowDown':
+      return candidateRect.bottom > currentRect.bottom && candidateRect.top > currentRect.top;
+    case 'ArrowLeft':
+      return candidateRect.left < currentRect.left && candidateRect.right < currentRect.right;
+    case 'ArrowRight':
+      return candidateRect.right > currentRect.right && candidateRect.left > currentRect.left;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Edge-to-edge gaps between two rects along and across the navigation direction
+ */
+function getGaps(
+  currentRect: Rect,
+  candidateRect: Rect,
+  direction: Direction
+): { primary: number; orthogonal: number } {
+  const horizontal = rangeGap(
+    currentRect.left,
+    currentRect.right,
+    candidateRect.left,
+    candidateRect.right
+  );
+  const vertical = rangeGap(
+    currentRect.top,
+    currentRect.bottom,
+    candidateRect.top,
+    candidateRect.bottom
+  );
+
+  return isVertical(direction)
+    ? { primary: vertical, orthogonal: horizontal }
+    : { primary: horizontal, orthogonal: vertical };
+}
+
+/**
+ * The original FocusEngine heuristic: center distance with a 0.3 cross-axis weight,
+ * a 0.8 alignment bonus and a 1.5 penalty when the projection misses the candidate.
+ * Candidates must overlap the current element on the cross axis.
+ */
+export const defaultStrategy: ScoringStrategy = (currentRect, candidateRect, direction) => {
+  const currentCenter = getCenter(currentRect);
+  const candidateCenter = getCenter(candidateRect);
+
+  // Calculate the difference in center coordinates
+  const dx = candidateCenter.x - currentCenter.x;
+  const dy = candidateCenter.y - currentCenter.y;
+
+  let distance: number;
+
+  switch (direction) {
+    case 'ArrowUp':
+    case 'ArrowDown':
+      if (direction === 'ArrowUp' ? dy >= 0 : dy <= 0) return null;
+      if (candidateRect.right <= currentRect.left || candidateRect.left >= currentRect.right) {
+        return null;
+      }
+      distance = Math.abs(dy) + Math.abs(dx) * 0.3;
+      if (Math.abs(dx) < Math.min(currentRect.width, candidateRect.width) / 4) {
+        distance *= 0.8;
+      }
+      break;
+    case 'ArrowLeft':
+    case 'ArrowRight':
+      if (direction === 'ArrowLeft' ? dx >= 0 : dx <= 0) return null;
+      if (candidateRect.bottom <= currentRect.top || candidateRect.top >= currentRect.bottom) {
+        return null;
+      }
+      distance = Math.abs(dx) + Math.abs(dy) * 0.3;
+      if (Math.abs(dy) < Math.min(currentRect.height, candidateRect.height) / 4) {
+        distance *= 0.8;
+      }
+      break;
+    default:
+      return null;
+  }
+
+  // Check if the candidate is not completely "behind" the current element
+  const projectionPoint = getProjection(currentRect, candidateRect, direction);
+  const projectionOnCandidateAxis = isVertical(direction)
+    ? projectionPoint >= candidateRect.left && projectionPoint <= candidateRect.right
+    : projectionPoint >= candidateRect.top && projectionPoint <= candidateRect.bottom;
+
+  if (!projectionOnCandidateAxis) {
+    // If the projection does not fall, the candidate may be too far
+    distance *= 1.5;
+  }
+
+  return distance;
+};
+
+/**
+ * Distance function from the CSS Spatial Navigation draft: A + B - C, where
+ * A is the euclidean distance between the closest points of both rects,
+ * B is the gap across the navigation direction (0 if they overlap) and
+ * C is the square root of the area the rects share.
+ */
+export const w3cStrategy: ScoringStrategy = (currentRect, candidateRect, direction) => {
+  if (!isInDirection(currentRect, candidateRect, direction)) return null;
+
+  const { primary, orthogonal } = getGaps(currentRect, candidateRect, direction);
+
+  const overlapWidth =
+    Math.min(currentRect.right, candidateRect.right) -
+    Math.max(currentRect.left, candidateRect.left);
+  const overlapHeight =
+    Math.min(currentRect.bottom, candidateRect.bottom) -
+    Math.max(currentRect.top, candidateRect.top);
+  const intersection = overlapWidth > 0 && overlapHeight > 0 ? overlapWidth * overlapHeight : 0;
+
+  const euclidean = Math.sqrt(primary * primary + orthogonal * orthogonal);
+  return euclidean + orthogonal - Math.sqrt(intersection);
+};
+
+/**
+ * Euclidean distance between the closest edges of both rects,
+ * for any candidate beyond the current element in the direction
+ */
+export const nearestEdgeStrategy: ScoringStrategy = (currentRect, candidateRect, direction) => {
+  if (!isInDirection(currentRect, candidateRect, direction)) return null;
+
+  const { primary, orthogonal } = getGaps(currentRect, candidateRect, direction);
+  return Math.sqrt(primary * primary + orthogonal * orthogonal);
+};
+
+/**
+ * Strict rows and columns: the candidate's center must lie within the current element
+ * on the cross axis, and only the distance along the direction counts
+ */
+export const strictStrategy: ScoringStrategy = (currentRect, candidateRect, direction) => {
+  if (!isInDirection(currentRect, candidateRect, direction)) return null;
+
+  const candidateCenter = getCenter(candidateRect);
+  const currentCenter = getCenter(currentRect);
+
+  if (isVertical(direction)) {
+    if (candidateCenter.x < currentRect.left || candidateCenter.x > currentRect.right) return null;
+    return Math.abs(candidateCenter.y - currentCenter.y);
+  }
+
+  if (candidateCenter.y < currentRect.top || candidateCenter.y > currentRect.bottom) return null;
+  return Math.abs(candidateCenter.x - currentCenter.x);
+};
+
+/**
+ * Built-in scoring strategies by name
+ */
+export const SCORING_STRATEGIES: Record<ScoringStrategyName, ScoringStrategy> = {
+  default: defaultStrategy,
+  w3c: w3cStrategy,
+  nearestEdge: nearestEdgeStrategy,
+  strict: strictStrategy,
+};
+
+/**
+ * Resolves a strategy name to its implementation
+ */
+export function resolveScoringStrategy(
+  strategy: ScoringStrategy | ScoringStrategyName
+): ScoringStrategy {
+  return typeof strategy === 'function' ? strategy : SCORING_STRATEGIES[strategy];
+}
+
+/**
+ * Lower bound of each built-in strategy's score as a factor of the edge gap along
+ * the direction, for candidates that do not overlap the current element along it.
+ * The default strategy's alignment bonus can lower a score to 0.8 of the gap
+ */
+const SCORE_BOUNDS: Map<ScoringStrategy, number> = new Map([
+  [defaultStrategy, 0.8],
+  [w3cStrategy, 1],
+  [nearestEdgeStrategy, 1],
+  [strictStrategy, 1],
+]);
+
+/**
+ * Gets the score lower bound of a strategy, which lets a spatial index stop early
+ * @returns The factor, or undefined for custom strategies that have no known bound
+ */
+export function getScoreBound(strategy: ScoringStrategy): number | undefined {
+  return SCORE_BOUNDS.get(strategy);
+}
@@ -0,0 +1,92 @@
+/**
+ * Virtualized collections: containers that render only part of their items.
+ * A provider describes every item, rendered or not, so navigation can move
+ * into items that are not in the DOM yet.
+ */
+
+import type { Direction } from './flow';
+import type { Rect, ScoringStrategy } from './strategies';
+
+/**
+ * Attribute that carries the item index on rendered elements of a virtual collection
+ */
+export const VIRTUAL_INDEX_ATTR = 'data-focus-index';
+
+/**
+ * Describes the items of a virtualized container
+ */
+export interface VirtualCollectionProvider {
+  /** Total number of items, rendered or not */
+  getItemCount(): number;
+  /** Geometry of an item in viewport coordinates, as if it were rendered */
+  getItemRect(index: number): Rect;
+  /** Asks the host to render an item. The engine focuses it once it is mounted */
+  materialize(index: number): void;
+  /** How long to wait for a materialized item to mount, in milliseconds (default: 1000) */
+  timeout?: number;
+}
+
+/**
+ * Finds the rendered element of an item
+ */
+export function getVirtualItemElement(container: HTMLElement, index: number): HTMLElement | null {
+  return container.querySelector<HTMLElement>(`[${VIRTUAL_INDEX_ATTR}="${index}"]`);
+}
+
+/**
+ * Checks whether part of a container lies beyond the current rect in the direction.
+ * A cheap test before scoring the items of a collection that focus is outside of
+ */
+export function reachesBeyond(
+  containerRect: Rect,
+  currentRect: Rect,
+  direction: Direction
+): boolean {
+  switch (direction) {
+    case 'ArrowUp':
+      return containerRect.top < currentRect.top;
+    case 'ArrowDown':
+      return containerRect.bottom > currentRect.bottom;
+    case 'ArrowLeft':
+      return containerRect.left < currentRect.left;
+    default:
+      return containerRect.right > currentRect.right;
+  }
+}
+
+/**
+ * Finds the best item that is not rendered yet
+ * @param container The virtualized container
+ * @param provider The provider of the container
+ * @param currentRect Rect of the currently focused element
+ * @param direction Navigation direction
+ * @param strategy Scoring strategy
+ * @returns The index and score of the best item, or null if no unrendered item is suitable
+ */
+export function findVirtualCandidate(
+  container: HTMLElement,
+  provider: VirtualCollectionProvider,
+  currentRect: Rect,
+  direction: Direction,
+  strategy: ScoringStrategy
+): { index: number; score: number } | null {
+  const renderedIndexes = new Set(
+    Array.from(container.querySelectorAll(`[${VIRTUAL_INDEX_ATTR}]`)).map((el) =>
+      Number(el.getAttribute(VIRTUAL_INDEX_ATTR))
+    )
+  );
+
+  let best: { index: number; score: number } | null = null;
+  const count = provider.getItemCount();
+
+  for (let index = 0; index < count; index++) {
+    if (renderedIndexes.has(index)) continue;
+
+    const score = strategy(currentRect, provider.getItemRect(index), direction);
+    if (score !== null && (!best || score < best.score)) {
+      best = { index, score };
+    }
+  }
+
+  return best;
+}
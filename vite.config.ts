@@ -10,9 +10,12 @@ export default defineConfig({
   },
   build: {
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        index: resolve(__dirname, 'src/index.ts'),
+        core: resolve(__dirname, 'src/core.ts'),
+      },
       name: 'FocusEngine',
-      fileName: 'index',
+      fileName: (_format, name) => `${name}.js`,
       formats: ['es'],
     },
     rollupOptions: {